@@ -1,14 +1,24 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { DEFAULT_SETTINGS, midiNoteToFrequency, getNoteLabel, TRANSLATIONS } from './constants';
-import { SynthSettings, NoteEvent, EnvelopeSettings, StoredPreset, Language, MIDIMapping, WaveformType } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { DEFAULT_SETTINGS, MAPPABLE_PARAMS, mergeSettings, DEFAULT_TRANSPORT, DEFAULT_ARP, DEFAULT_INPUT, DEFAULT_TUNING, DEFAULT_KEYBOARD_LAYOUT, SCALES, frequencyToMidiNote, WAVEFORMS, FILTER_TYPES, midiNoteToFrequency, getNoteLabel, TRANSLATIONS, MOD_WHEEL_CC, SUSTAIN_PEDAL_CC, RESERVED_CCS } from './constants';
+import { SynthSettings, TransportSettings, ArpSettings, InputSettings, TuningSettings, KeyboardLayout, SequencerPattern, EnvelopeSettings, StoredPreset, Language, MIDIMapping, WaveformType } from './types';
 import { audioEngine } from './services/audioEngine';
+import { noteBus } from './services/noteBus';
+import { arpeggiator } from './services/arpeggiator';
+import { sequencer, createPattern, SequencerSource } from './services/sequencer';
+import { processInput, learnChord } from './services/noteInput';
+import { tuning as tuningService } from './services/tuning';
 import Visualizer from './components/Visualizer';
 import Controls from './components/Controls';
 import Keyboard from './components/Keyboard';
 import Looper from './components/Looper';
+import ModMatrix from './components/ModMatrix';
+import Sequencer from './components/Sequencer';
+import Arpeggiator from './components/Arpeggiator';
+import InputModes from './components/InputModes';
+import TuningPanel from './components/TuningPanel';
 import { 
-  Activity, Layers, X, Globe, Monitor, Save, Trash2, MoreVertical, Settings, Volume2, Cpu, Link, Zap, ChevronDown, ChevronUp, Crosshair, Terminal
+  Activity, Layers, X, Globe, Monitor, Save, Trash2, MoreVertical, Settings, Volume2, Cpu, Link, Zap, ChevronDown, ChevronUp, Crosshair, Terminal, Grid3x3, AudioWaveform
 } from 'lucide-react';
 
 const ENVELOPE_PRESETS: Record<string, { labelKey: keyof typeof TRANSLATIONS.en; settings: EnvelopeSettings }> = {
@@ -18,45 +28,104 @@ const ENVELOPE_PRESETS: Record<string, { labelKey: keyof typeof TRANSLATIONS.en;
   quick: { labelKey: 'quickRelease', settings: { attack: 0.05, decay: 0.1, sustain: 0.2, release: 0.05 } }
 };
 
-export const MAPPABLE_PARAMS = [
-  { id: 'filter.frequency', label: 'Filter Cutoff', min: 20, max: 15000 },
-  { id: 'filter.resonance', label: 'Filter Resonance', min: 0.1, max: 20 },
-  { id: 'envelope.attack', label: 'Attack', min: 0.01, max: 2 },
-  { id: 'envelope.decay', label: 'Decay', min: 0.01, max: 2 },
-  { id: 'envelope.sustain', label: 'Sustain', min: 0.01, max: 1 },
-  { id: 'envelope.release', label: 'Release', min: 0.01, max: 3 },
-  { id: 'gain', label: 'Master Volume', min: 0, max: 1 },
-  { id: 'detune', label: 'Detune', min: -100, max: 100 },
-  { id: 'stereoWidth', label: 'Stereo Width', min: 0, max: 1 },
-  { id: 'reverb', label: 'Reverb Mix', min: 0, max: 0.8 },
-  { id: 'delay', label: 'Delay Mix', min: 0, max: 0.8 },
-  { id: 'glideSpeed', label: 'Glide Speed', min: 0.01, max: 1 },
-  { id: 'glide', label: 'Glide Toggle', min: 0, max: 1 },
-  { id: 'waveform', label: 'Waveform', min: 0, max: 1 },
-];
+const FILTER_ENVELOPE_PRESETS: Record<string, { labelKey: keyof typeof TRANSLATIONS.en; settings: EnvelopeSettings; envAmount: number }> = {
+  pluck: { labelKey: 'pluck', settings: { attack: 0.005, decay: 0.25, sustain: 0.1, release: 0.2 }, envAmount: 0.7 },
+  brass: { labelKey: 'brass', settings: { attack: 0.08, decay: 0.4, sustain: 0.6, release: 0.3 }, envAmount: 0.5 },
+  sweep: { labelKey: 'slowSweep', settings: { attack: 1.5, decay: 1.0, sustain: 0.8, release: 1.5 }, envAmount: 0.8 },
+  static: { labelKey: 'staticFilter', settings: { attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.5 }, envAmount: 0 }
+};
 
 const STORAGE_KEY = 'gemini_synth_presets_v2';
 const MIDI_STORAGE_KEY = 'gemini_synth_midi_mappings';
 const LANG_STORAGE_KEY = 'gemini_synth_lang';
+const TRANSPORT_STORAGE_KEY = 'gemini_synth_transport';
+const ARP_STORAGE_KEY = 'gemini_synth_arp';
+const INPUT_STORAGE_KEY = 'gemini_synth_input';
+const TUNING_STORAGE_KEY = 'gemini_synth_tuning';
+const KEYBOARD_STORAGE_KEY = 'gemini_synth_keyboard';
+const PATTERN_STORAGE_KEY = 'gemini_synth_patterns';
+
+// Stored settings are laid over their defaults so fields added since are filled in; anything
+// unreadable falls back to the defaults instead of stopping the app from starting
+const loadStored = <T extends object>(key: string, fallback: T): T => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return fallback;
+  try {
+    return { ...fallback, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error(e);
+    return fallback;
+  }
+};
+
+const loadPatterns = (): SequencerPattern[] => {
+  const raw = localStorage.getItem(PATTERN_STORAGE_KEY);
+  if (raw) {
+    try {
+      const stored = JSON.parse(raw) as SequencerPattern[];
+      if (stored.length > 0) return stored;
+    } catch (e) {
+      console.error(e);
+    }
+  }
+  return [createPattern('A')];
+};
 
 const App: React.FC = () => {
   const [lang, setLang] = useState<Language>(() => (localStorage.getItem(LANG_STORAGE_KEY) as Language) || 'zh');
   const [settings, setSettings] = useState<SynthSettings>(DEFAULT_SETTINGS);
+  const [transport, setTransport] = useState<TransportSettings>(() => loadStored(TRANSPORT_STORAGE_KEY, DEFAULT_TRANSPORT));
+  const [arp, setArp] = useState<ArpSettings>(() => loadStored(ARP_STORAGE_KEY, DEFAULT_ARP));
+  const [input, setInput] = useState<InputSettings>(() => loadStored(INPUT_STORAGE_KEY, DEFAULT_INPUT));
+  const [isLearningChord, setIsLearningChord] = useState(false);
+  const [tuning, setTuning] = useState<TuningSettings>(() => {
+    const stored = loadStored(TUNING_STORAGE_KEY, DEFAULT_TUNING);
+    tuningService.setTuning(stored);
+    return stored;
+  });
+  const [keyboardLayout, setKeyboardLayout] = useState<KeyboardLayout>(() => loadStored(KEYBOARD_STORAGE_KEY, DEFAULT_KEYBOARD_LAYOUT));
+  // Sequencer patterns live here rather than in the panel so playback carries on when it is closed
+  const [patterns, setPatterns] = useState<SequencerPattern[]>(loadPatterns);
+  const [patternChain, setPatternChain] = useState<string[]>([]);
+  const [selectedPatternId, setSelectedPatternId] = useState<string>(() => patterns[0].id);
+  const patternsRef = useRef(patterns);
+  const patternChainRef = useRef(patternChain);
+  const selectedPatternRef = useRef(selectedPatternId);
   const settingsRef = useRef(DEFAULT_SETTINGS);
+  const transportRef = useRef(transport);
+  const arpRef = useRef(arp);
+  // Labels of keys that were handed to the arpeggiator, so their release goes there too
+  const arpInputs = useRef<Set<string>>(new Set());
+  const inputRef = useRef(input);
+  // Notes each held key triggered after chord memory and scale lock, and how many keys hold each
+  // of them, so two keys landing on the same note don't cut each other off
+  const inputTargets = useRef<Map<string, string[]>>(new Map());
+  const targetCounts = useRef<Map<string, number>>(new Map());
+  const learnedChord = useRef<Set<number> | null>(null);
+  // Keys let go while the sustain pedal is down keep sounding, so their release is only announced
+  // on the note bus once the pedal lifts
+  const sustainDown = useRef(false);
+  const sustainedReleases = useRef<Set<string>>(new Set());
   const [presetName, setPresetName] = useState("Default Lead");
-  const [lastNoteEvents, setLastNoteEvents] = useState<NoteEvent[]>([]);
   const [midiEnabled, setMidiEnabled] = useState(false);
   const [savedPresets, setSavedPresets] = useState<StoredPreset[]>([]);
   const [isMoreMenuOpen, setIsMoreMenuOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveName, setSaveName] = useState("");
   const [isLooperExpanded, setIsLooperExpanded] = useState(false);
+  const [isNoteEditorOpen, setIsNoteEditorOpen] = useState(false);
+  const [isSequencerOpen, setIsSequencerOpen] = useState(false);
+  const [isArpOpen, setIsArpOpen] = useState(false);
 
   // MIDI CC Mapping State
   const [isLearnModeActive, setIsLearnModeActive] = useState(false);
   const [midiMappings, setMidiMappings] = useState<MIDIMapping>(() => {
     const raw = localStorage.getItem(MIDI_STORAGE_KEY);
-    return raw ? JSON.parse(raw) : { 1: 'filter.frequency', 7: 'gain' };
+    let mappings: MIDIMapping = { 74: 'filter.frequency', 7: 'gain' };
+    if (raw) try { mappings = JSON.parse(raw); } catch (e) { console.error(e); }
+    // Older sessions could map the mod wheel or pedal, which now have fixed roles
+    RESERVED_CCS.forEach(cc => delete mappings[cc]);
+    return mappings;
   });
   const [learningParam, setLearningParam] = useState<string | null>(null);
 
@@ -64,6 +133,41 @@ const App: React.FC = () => {
 
   useEffect(() => { settingsRef.current = settings; }, [settings]);
   useEffect(() => { localStorage.setItem(LANG_STORAGE_KEY, lang); }, [lang]);
+  useEffect(() => {
+    localStorage.setItem(TRANSPORT_STORAGE_KEY, JSON.stringify(transport));
+    audioEngine.setTempo(transport.bpm, settingsRef.current);
+    transportRef.current = transport;
+  }, [transport]);
+  useEffect(() => {
+    localStorage.setItem(ARP_STORAGE_KEY, JSON.stringify(arp));
+    arpRef.current = arp;
+    if (arp.enabled) arpeggiator.setLatch(arp.latch);
+    else arpeggiator.stop();
+  }, [arp]);
+  useEffect(() => {
+    localStorage.setItem(INPUT_STORAGE_KEY, JSON.stringify(input));
+    inputRef.current = input;
+  }, [input]);
+  useEffect(() => {
+    localStorage.setItem(TUNING_STORAGE_KEY, JSON.stringify(tuning));
+    tuningService.setTuning(tuning);
+  }, [tuning]);
+  useEffect(() => { localStorage.setItem(KEYBOARD_STORAGE_KEY, JSON.stringify(keyboardLayout)); }, [keyboardLayout]);
+  useEffect(() => {
+    patternsRef.current = patterns;
+    localStorage.setItem(PATTERN_STORAGE_KEY, JSON.stringify(patterns));
+  }, [patterns]);
+  useEffect(() => { patternChainRef.current = patternChain; }, [patternChain]);
+  useEffect(() => { selectedPatternRef.current = selectedPatternId; }, [selectedPatternId]);
+  useEffect(() => () => sequencer.stop(), []);
+
+  // With no chain the selected pattern loops on its own; edits land on the next pass
+  const sequencerSource = useMemo<SequencerSource>(() => ({
+    getPatterns: () => patternsRef.current,
+    getChain: () => patternChainRef.current.length > 0 ? patternChainRef.current : [selectedPatternRef.current],
+    getSettings: () => settingsRef.current,
+    getTransport: () => transportRef.current,
+  }), []);
   useEffect(() => {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (raw) try { setSavedPresets(JSON.parse(raw)); } catch (e) { console.error(e); }
@@ -75,31 +179,125 @@ const App: React.FC = () => {
     audioEngine.updateSettings(settings); 
   }, [settings]);
 
-  const handleNoteStart = useCallback((note: string, freq: number) => {
-    audioEngine.playNote(freq, note, settingsRef.current);
-    setLastNoteEvents(prev => [...prev, { note, frequency: freq, timestamp: Date.now(), startTime: Date.now() }]);
+  // Notes struck or released together share one time, so a chord records as a chord
+  const emitNoteStart = useCallback((note: string, freq: number, velocity: number, time: number = Date.now()) => {
+    noteBus.noteStart({ note, frequency: freq, velocity, timestamp: time, startTime: time });
   }, []);
 
-  const handleNoteEnd = useCallback((note: string) => {
-    audioEngine.stopNote(note, settingsRef.current);
+  const emitNoteEnd = useCallback((note: string, time: number = Date.now()) => {
+    noteBus.noteEnd({ note, timestamp: time });
   }, []);
 
+  useEffect(() => {
+    arpeggiator.setSource({
+      getArp: () => arpRef.current,
+      getSettings: () => settingsRef.current,
+      getTransport: () => transportRef.current,
+      onNoteStart: emitNoteStart,
+      onNoteEnd: emitNoteEnd,
+    });
+    return () => arpeggiator.stop();
+  }, [emitNoteStart, emitNoteEnd]);
+
+  // With the arpeggiator on, it plays in place of the notes it is given
+  const startNote = useCallback((note: string, freq: number, velocity: number, time: number) => {
+    if (arpRef.current.enabled) {
+      arpInputs.current.add(note);
+      arpeggiator.noteOn(note, freq, velocity);
+      return;
+    }
+    // Striking a pedal-held note again ends the held one in the engine, and so on the bus
+    if (sustainedReleases.current.delete(note)) emitNoteEnd(note, time);
+    audioEngine.playNote(freq, note, settingsRef.current, { velocity });
+    emitNoteStart(note, freq, velocity, time);
+  }, [emitNoteStart, emitNoteEnd]);
+
+  const endNote = useCallback((note: string, time: number) => {
+    if (arpInputs.current.delete(note)) {
+      arpeggiator.noteOff(note);
+      return;
+    }
+    audioEngine.stopNote(note, settingsRef.current);
+    if (sustainDown.current) {
+      sustainedReleases.current.add(note);
+      return;
+    }
+    emitNoteEnd(note, time);
+  }, [emitNoteEnd]);
+
+  const handleSustain = useCallback((down: boolean) => {
+    sustainDown.current = down;
+    audioEngine.setSustain(down, settingsRef.current);
+    if (down) return;
+    const time = Date.now();
+    sustainedReleases.current.forEach(note => emitNoteEnd(note, time));
+    sustainedReleases.current.clear();
+  }, [emitNoteEnd]);
+
+  // Keyboard, QWERTY and MIDI input all arrive here and pass through chord memory and scale lock.
+  // While a chord is being learned, keys play as they are.
+  const handleNoteStart = useCallback((note: string, freq: number, velocity: number = 1) => {
+    learnedChord.current?.add(frequencyToMidiNote(freq));
+    const targets = learnedChord.current ? [{ note, frequency: freq }] : processInput(note, freq, inputRef.current);
+    inputTargets.current.set(note, targets.map(target => target.note));
+    const time = Date.now();
+    targets.forEach(target => {
+      const count = targetCounts.current.get(target.note) ?? 0;
+      targetCounts.current.set(target.note, count + 1);
+      if (count === 0) startNote(target.note, target.frequency, velocity, time);
+    });
+  }, [startNote]);
+
+  const handleNoteEnd = useCallback((note: string) => {
+    const targets = inputTargets.current.get(note) ?? [note];
+    inputTargets.current.delete(note);
+    const time = Date.now();
+    targets.forEach(target => {
+      const count = (targetCounts.current.get(target) ?? 1) - 1;
+      if (count > 0) {
+        targetCounts.current.set(target, count);
+        return;
+      }
+      targetCounts.current.delete(target);
+      endNote(target, time);
+    });
+
+    // Letting go of the whole chord finishes learning it
+    if (learnedChord.current && learnedChord.current.size > 0 && inputTargets.current.size === 0) {
+      const chord = learnChord(Array.from(learnedChord.current));
+      learnedChord.current = null;
+      setIsLearningChord(false);
+      setInput(prev => ({ ...prev, chord, chordMemory: true }));
+    }
+  }, [endNote]);
+
+  const toggleChordLearning = () => {
+    learnedChord.current = isLearningChord ? null : new Set();
+    setIsLearningChord(!isLearningChord);
+  };
+
   const updateNestedSetting = (path: string, value: number) => {
     setSettings(prev => {
       const next = { ...prev };
       const parts = path.split('.');
+      const key = parts[parts.length - 1];
+      let converted: number | boolean | WaveformType | BiquadFilterType = value;
+      if (key === 'glide') {
+        converted = value > 0.5;
+      } else if (key === 'waveform') {
+        const index = Math.min(3, Math.floor((value / 1) * 4));
+        converted = WAVEFORMS[index];
+      } else if (path === 'filter.type') {
+        const index = Math.min(FILTER_TYPES.length - 1, Math.floor(value * FILTER_TYPES.length));
+        converted = FILTER_TYPES[index];
+      } else if (path === 'filter.slope') {
+        converted = value > 0.5 ? 24 : 12;
+      }
+
       if (parts.length === 2) {
-        (next as any)[parts[0]] = { ...(next as any)[parts[0]], [parts[1]]: value };
+        (next as any)[parts[0]] = { ...(next as any)[parts[0]], [parts[1]]: converted };
       } else {
-        if (path === 'glide') {
-          (next as any)[path] = value > 0.5;
-        } else if (path === 'waveform') {
-          const waveforms: WaveformType[] = ['sine', 'square', 'sawtooth', 'triangle'];
-          const index = Math.min(3, Math.floor((value / 1) * 4));
-          (next as any)[path] = waveforms[index];
-        } else {
-          (next as any)[parts[0]] = value;
-        }
+        (next as any)[parts[0]] = converted;
       }
       return next;
     });
@@ -109,9 +307,14 @@ const App: React.FC = () => {
     const [status, data1, data2] = message.data;
     const command = status & 0xF0;
 
-    if (command === 0x90 && data2 > 0) handleNoteStart(getNoteLabel(data1), midiNoteToFrequency(data1));
+    if (command === 0x90 && data2 > 0) handleNoteStart(getNoteLabel(data1), midiNoteToFrequency(data1), data2 / 127);
     else if (command === 0x80 || (command === 0x90 && data2 === 0)) handleNoteEnd(getNoteLabel(data1));
     
+    else if (command === 0xE0) audioEngine.setPitchBend((((data2 << 7) | data1) - 8192) / 8192, settingsRef.current);
+    else if (command === 0xD0) audioEngine.setPressure(data1 / 127, settingsRef.current);
+    else if (command === 0xB0 && data1 === MOD_WHEEL_CC) audioEngine.setModWheel(data2 / 127, settingsRef.current);
+    else if (command === 0xB0 && data1 === SUSTAIN_PEDAL_CC) handleSustain(data2 >= 64);
+
     else if (command === 0xB0) {
       const ccNumber = data1;
       const ccValue = data2; 
@@ -133,12 +336,12 @@ const App: React.FC = () => {
           const paramDef = MAPPABLE_PARAMS.find(p => p.id === paramPath);
           if (paramDef) {
             const normalizedValue = (ccValue / 127) * (paramDef.max - paramDef.min) + paramDef.min;
-            updateNestedSetting(paramPath, normalizedValue);
+            updateNestedSetting(paramPath, paramDef.step ? Math.round(normalizedValue / paramDef.step) * paramDef.step : normalizedValue);
           }
         }
       }
     }
-  }, [handleNoteStart, handleNoteEnd, learningParam, midiMappings]);
+  }, [handleNoteStart, handleNoteEnd, handleSustain, learningParam, midiMappings]);
 
   const handleSaveCurrent = () => {
     if (!saveName.trim()) return;
@@ -150,7 +353,8 @@ const App: React.FC = () => {
   };
 
   const loadPreset = (preset: StoredPreset) => {
-    setSettings(preset.settings);
+    // Presets saved before newer parameters existed fall back to their defaults
+    setSettings(mergeSettings(preset.settings));
     setPresetName(preset.name);
     setIsMoreMenuOpen(false);
   };
@@ -179,17 +383,34 @@ const App: React.FC = () => {
 
         <div className="flex-1 flex items-center h-full">
            <Looper 
-            currentNotes={lastNoteEvents} 
             settings={settings} 
-            onPlayEvent={handleNoteStart} 
-            onStopEvent={handleNoteEnd} 
+            presets={savedPresets}
             lang={lang}
+            transport={transport}
+            onTransportChange={setTransport}
             isExpanded={isLooperExpanded}
             onToggleExpand={() => setIsLooperExpanded(!isLooperExpanded)}
+            onEditorOpenChange={setIsNoteEditorOpen}
           />
         </div>
 
         <div className="flex items-center gap-2 ml-4">
+          <button 
+            onClick={() => setIsArpOpen(!isArpOpen)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border transition-all ${isArpOpen || arp.enabled ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+            title={t.arpeggiator}
+          >
+            <AudioWaveform size={14} className={arp.enabled ? 'animate-pulse' : ''} />
+            <span className="text-[9px] font-black uppercase tracking-tighter hidden sm:inline">ARP</span>
+          </button>
+          <button 
+            onClick={() => setIsSequencerOpen(!isSequencerOpen)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border transition-all ${isSequencerOpen ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+            title={t.sequencer}
+          >
+            <Grid3x3 size={14} />
+            <span className="text-[9px] font-black uppercase tracking-tighter hidden sm:inline">{t.sequencer}</span>
+          </button>
           <button 
             onClick={() => {
               if (isLearnModeActive) {
@@ -273,6 +494,17 @@ const App: React.FC = () => {
                   {key}
                 </button>
               ))}
+              <div className="w-px bg-zinc-800 mx-1 shrink-0" />
+              {Object.keys(FILTER_ENVELOPE_PRESETS).map(key => (
+                <button 
+                  key={key} 
+                  onClick={() => setSettings(p => ({...p, filterEnvelope: FILTER_ENVELOPE_PRESETS[key].settings, filter: { ...p.filter, envAmount: FILTER_ENVELOPE_PRESETS[key].envAmount }}))} 
+                  className="px-2 py-0.5 bg-zinc-950 rounded text-[7px] font-bold uppercase text-zinc-600 hover:text-amber-400 border border-zinc-800 whitespace-nowrap"
+                  title={t.filterEnvelope}
+                >
+                  f·{key}
+                </button>
+              ))}
             </div>
 
             <div className="ml-auto flex items-center gap-2">
@@ -298,10 +530,32 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {isArpOpen && <Arpeggiator arp={arp} onChange={setArp} lang={lang} />}
+        {isSequencerOpen && (
+          <Sequencer
+            patterns={patterns}
+            onPatternsChange={setPatterns}
+            chain={patternChain}
+            onChainChange={setPatternChain}
+            selectedId={selectedPatternId}
+            onSelect={setSelectedPatternId}
+            source={sequencerSource}
+            lang={lang}
+          />
+        )}
+
         {/* KEYBOARD AREA (ALWAYS ACCESSIBLE AT THE BOTTOM) */}
         <div className="flex-1 min-h-0 relative flex flex-col">
+          <InputModes input={input} onChange={setInput} isLearningChord={isLearningChord} onLearnChord={toggleChordLearning} lang={lang} />
           <div className="flex-1 relative z-10">
-            <Keyboard onNoteStart={handleNoteStart} onNoteEnd={handleNoteEnd} settings={settings} />
+            <Keyboard 
+              onNoteStart={handleNoteStart} 
+              onNoteEnd={handleNoteEnd} 
+              scale={input.scaleLock ? { root: input.root, intervals: SCALES[input.scale].intervals } : null}
+              layout={keyboardLayout}
+              onLayoutChange={setKeyboardLayout}
+              qwertyEnabled={!isNoteEditorOpen}
+            />
           </div>
         </div>
       </div>
@@ -408,6 +662,9 @@ const App: React.FC = () => {
                   )}
                 </div>
               </section>
+
+              <ModMatrix settings={settings} setSettings={setSettings} lang={lang} />
+              <TuningPanel tuning={tuning} onChange={setTuning} lang={lang} />
             </div>
           </div>
         </div>
@@ -0,0 +1,90 @@
+import React from 'react';
+import { ArpSettings, ArpMode, Language } from '../types';
+import { TRANSLATIONS, ARP_MODES, ARP_MAX_OCTAVES, QUANTIZE_DIVISIONS } from '../constants';
+import { Power, Lock } from 'lucide-react';
+
+interface ArpeggiatorProps {
+  arp: ArpSettings;
+  onChange: (arp: ArpSettings) => void;
+  lang: Language;
+}
+
+const selectClass = "bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-[8px] font-black text-zinc-300 uppercase focus:outline-none focus:border-cyan-700";
+
+const Arpeggiator: React.FC<ArpeggiatorProps> = ({ arp, onChange, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const update = (changes: Partial<ArpSettings>) => onChange({ ...arp, ...changes });
+
+  const getModeLabel = (mode: ArpMode) => {
+    switch(mode) {
+      case 'up': return t.arpUp;
+      case 'down': return t.arpDown;
+      case 'upDown': return t.arpUpDown;
+      case 'random': return t.arpRandom;
+      case 'asPlayed': return t.arpAsPlayed;
+      default: return '';
+    }
+  };
+
+  return (
+    <div className="shrink-0 bg-zinc-950 border-b border-zinc-800/50 px-4 py-2 z-20 flex items-center gap-3 flex-wrap">
+      <button
+        onClick={() => update({ enabled: !arp.enabled })}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${arp.enabled ? 'bg-cyan-600 border-cyan-500 text-black' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <Power size={10} /> {t.arpeggiator}
+      </button>
+
+      <select value={arp.mode} onChange={(e) => update({ mode: e.target.value as ArpMode })} className={selectClass}>
+        {ARP_MODES.map(m => <option key={m.id} value={m.id}>{getModeLabel(m.id)}</option>)}
+      </select>
+
+      <div className="flex items-center gap-1">
+        <span className="text-[7px] font-black uppercase text-zinc-600">{t.octavesShort}</span>
+        {Array.from({ length: ARP_MAX_OCTAVES }, (_, i) => i + 1).map(octaves => (
+          <button
+            key={octaves}
+            onClick={() => update({ octaves })}
+            className={`w-5 py-0.5 rounded text-[8px] font-black mono border ${arp.octaves === octaves ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-800 text-zinc-600'}`}
+          >
+            {octaves}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <span className="text-[7px] font-black uppercase text-zinc-600">{t.rate}</span>
+        <select value={arp.division} onChange={(e) => update({ division: parseFloat(e.target.value) })} className={selectClass}>
+          {QUANTIZE_DIVISIONS.map(d => <option key={d.beats} value={d.beats}>{d.label}</option>)}
+        </select>
+        <button
+          onClick={() => update({ triplet: !arp.triplet })}
+          className={`px-1.5 py-0.5 rounded text-[8px] font-black border ${arp.triplet ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-800 text-zinc-600'}`}
+          title={t.triplet}
+        >
+          T
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <span className="text-[7px] font-black uppercase text-zinc-600">{t.gate}</span>
+        <input
+          type="range" min="0.05" max="1" step="0.05"
+          value={arp.gate}
+          onChange={(e) => update({ gate: parseFloat(e.target.value) })}
+          className="w-16 accent-cyan-500"
+        />
+        <span className="w-7 text-[8px] font-black text-cyan-500 mono">{Math.round(arp.gate * 100)}%</span>
+      </div>
+
+      <button
+        onClick={() => update({ latch: !arp.latch })}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded border text-[8px] font-black uppercase ${arp.latch ? 'bg-amber-500/20 border-amber-600 text-amber-400' : 'bg-zinc-900 border-zinc-800 text-zinc-600'}`}
+      >
+        <Lock size={9} /> {t.latch}
+      </button>
+    </div>
+  );
+};
+
+export default Arpeggiator;
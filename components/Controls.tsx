@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { SynthSettings, WaveformType, Language, MIDIMapping } from '../types';
-import { TRANSLATIONS } from '../constants';
+import { SynthSettings, WaveformType, Language, MIDIMapping, LfoSettings } from '../types';
+import { TRANSLATIONS, WAVEFORMS, FILTER_TYPES, LFO_DESTINATIONS, LFO_DIVISIONS, VELOCITY_CURVES, PRESSURE_TARGETS, VOICE_MODES, STEAL_MODES } from '../constants';
 import { Zap, Link as LinkIcon, Crosshair } from 'lucide-react';
 
 interface ControlsProps {
@@ -161,11 +161,40 @@ export const Knob: React.FC<KnobProps> = ({
   );
 };
 
+const FILTER_TYPE_LABELS: Record<string, string> = { lowpass: 'LP', highpass: 'HP', bandpass: 'BP', notch: 'NT', peaking: 'PK' };
+
 const Controls: React.FC<ControlsProps> = ({ 
   settings, setSettings, lang, isLearnMode, learningParam, setLearningParam, midiMappings 
 }) => {
   const updateEnvelope = (key: keyof SynthSettings['envelope'], val: number) => setSettings(p => ({ ...p, envelope: { ...p.envelope, [key]: val } }));
-  const updateFilter = (key: keyof SynthSettings['filter'], val: number) => setSettings(p => ({ ...p, filter: { ...p.filter, [key]: val } }));
+  const updateFilterEnvelope = (key: keyof SynthSettings['filterEnvelope'], val: number) => setSettings(p => ({ ...p, filterEnvelope: { ...p.filterEnvelope, [key]: val } }));
+  const updateFilter = (key: Exclude<keyof SynthSettings['filter'], 'type' | 'slope'>, val: number) => setSettings(p => ({ ...p, filter: { ...p.filter, [key]: val } }));
+  const updateOsc2 = (key: 'octave' | 'semitone' | 'level', val: number) => setSettings(p => ({ ...p, osc2: { ...p.osc2, [key]: val } }));
+  const cycleOsc2Waveform = () => setSettings(p => {
+    const index = WAVEFORMS.indexOf(p.osc2.waveform);
+    return { ...p, osc2: { ...p.osc2, waveform: WAVEFORMS[(index + 1) % WAVEFORMS.length] } };
+  });
+  const updateLfo = (id: 'lfo1' | 'lfo2', patch: Partial<LfoSettings>) => setSettings(p => ({ ...p, [id]: { ...p[id], ...patch } }));
+  const nextOf = <T,>(list: T[], current: T): T => list[(list.indexOf(current) + 1) % list.length];
+  const cycleVoiceMode = () => setSettings(p => {
+    const index = VOICE_MODES.indexOf(p.polyphony.voiceMode);
+    return { ...p, polyphony: { ...p.polyphony, voiceMode: VOICE_MODES[(index + 1) % VOICE_MODES.length] } };
+  });
+  const cycleStealMode = () => setSettings(p => {
+    const index = STEAL_MODES.indexOf(p.polyphony.stealMode);
+    return { ...p, polyphony: { ...p.polyphony, stealMode: STEAL_MODES[(index + 1) % STEAL_MODES.length] } };
+  });
+  const updateVelocity = (key: 'ampAmount' | 'filterAmount', val: number) => setSettings(p => ({ ...p, velocity: { ...p.velocity, [key]: val } }));
+  const cycleVelocityCurve = () => setSettings(p => {
+    const index = VELOCITY_CURVES.indexOf(p.velocity.curve);
+    return { ...p, velocity: { ...p.velocity, curve: VELOCITY_CURVES[(index + 1) % VELOCITY_CURVES.length] } };
+  });
+  const updatePerformance = (key: Exclude<keyof SynthSettings['performance'], 'pressureTarget'>, val: number) => setSettings(p => ({ ...p, performance: { ...p.performance, [key]: val } }));
+  const cyclePressureTarget = () => setSettings(p => {
+    const index = PRESSURE_TARGETS.indexOf(p.performance.pressureTarget);
+    return { ...p, performance: { ...p.performance, pressureTarget: PRESSURE_TARGETS[(index + 1) % PRESSURE_TARGETS.length] } };
+  });
+  const updateReverb = (key: keyof SynthSettings['reverbParams'], val: number) => setSettings(p => ({ ...p, reverbParams: { ...p.reverbParams, [key]: val } }));
 
   const getMappedCC = (id: string) => {
     if (!midiMappings) return null;
@@ -215,10 +244,58 @@ const Controls: React.FC<ControlsProps> = ({
               </div>
             )}
           </div>
+          <div className="flex flex-col items-center gap-1 pl-1 border-l border-zinc-800/30">
+            <button
+              onClick={() => {
+                if (isLearnMode && setLearningParam) setLearningParam(learningParam === 'osc2.waveform' ? null : 'osc2.waveform');
+                else cycleOsc2Waveform();
+              }}
+              className={`relative w-9 py-1 rounded text-[5px] font-black uppercase border transition-all ${learningParam === 'osc2.waveform' ? 'bg-amber-500 text-black border-amber-400 animate-pulse' : (isLearnMode ? (getMappedCC('osc2.waveform') ? 'bg-amber-500/20 border-amber-500/50 text-amber-400' : 'bg-black border-zinc-800 text-zinc-600') : 'bg-black border-zinc-800 text-cyan-500 hover:border-cyan-800')}`}
+              title="Oscillator 2 Waveform"
+            >
+              O2 {settings.osc2.waveform.slice(0, 3)}
+              {isLearnMode && getMappedCC('osc2.waveform') && (
+                <div className="absolute -top-2 -right-2 bg-amber-600 text-black text-[5px] font-black px-1 py-0.5 rounded scale-75 border border-amber-400 z-10">
+                  CC {getMappedCC('osc2.waveform')}
+                </div>
+              )}
+            </button>
+            <Knob label="LVL" value={settings.osc2.level} min={0} max={1} step={0.01} size={20} onChange={(v) => updateOsc2('level', v)} {...commonProps('osc2.level')} />
+          </div>
+          <div className="grid grid-cols-2 gap-x-1 gap-y-0.5">
+            <Knob label="OCT" value={settings.osc2.octave} min={-2} max={2} step={1} size={20} onChange={(v) => updateOsc2('octave', v)} {...commonProps('osc2.octave')} />
+            <Knob label="SEMI" value={settings.osc2.semitone} min={-12} max={12} step={1} size={20} onChange={(v) => updateOsc2('semitone', v)} {...commonProps('osc2.semitone')} />
+            <Knob label="SUB" value={settings.sub.level} min={0} max={1} step={0.01} size={20} onChange={(v) => setSettings(p => ({ ...p, sub: { ...p.sub, level: v } }))} {...commonProps('sub.level')} />
+            <Knob label="NOISE" value={settings.noiseLevel} min={0} max={1} step={0.01} size={20} onChange={(v) => setSettings(p => ({ ...p, noiseLevel: v }))} {...commonProps('noiseLevel')} />
+          </div>
+          <div className="flex flex-col gap-0.5">
+            <Knob label="UNI" value={settings.unison.voices} min={1} max={7} step={1} size={20} onChange={(v) => setSettings(p => ({ ...p, unison: { ...p.unison, voices: v } }))} {...commonProps('unison.voices')} />
+            <Knob label="SPRD" value={settings.unison.detune} min={0} max={100} step={1} size={20} onChange={(v) => setSettings(p => ({ ...p, unison: { ...p.unison, detune: v } }))} {...commonProps('unison.detune')} />
+          </div>
           <Knob label="DT" value={settings.detune} min={-100} max={100} step={1} onChange={(v) => setSettings(p => ({ ...p, detune: v }))} {...commonProps('detune')} />
           <Knob label="WD" value={settings.stereoWidth} min={0} max={1} step={0.01} onChange={(v) => setSettings(p => ({ ...p, stereoWidth: v }))} {...commonProps('stereoWidth')} />
         </ControlGroup>
 
+        <ControlGroup title="VOICE">
+          <div className="flex flex-col gap-0.5">
+            <button
+              onClick={() => { if (!isLearnMode) cycleVoiceMode(); }}
+              className={`w-9 py-1 rounded text-[5px] font-black uppercase border transition-all bg-black border-zinc-800 text-cyan-500 ${isLearnMode ? 'pointer-events-none opacity-50' : 'hover:border-cyan-800'}`}
+              title="Voice Mode"
+            >
+              {settings.polyphony.voiceMode}
+            </button>
+            <button
+              onClick={() => { if (!isLearnMode) cycleStealMode(); }}
+              className={`w-9 py-1 rounded text-[5px] font-black uppercase border transition-all bg-black border-zinc-800 text-zinc-500 ${isLearnMode ? 'pointer-events-none opacity-50' : 'hover:border-cyan-800'}`}
+              title="Voice Stealing"
+            >
+              {settings.polyphony.stealMode}
+            </button>
+          </div>
+          <Knob label="POLY" value={settings.polyphony.maxVoices} min={1} max={32} step={1} onChange={(v) => setSettings(p => ({ ...p, polyphony: { ...p.polyphony, maxVoices: v } }))} {...commonProps('polyphony.maxVoices')} />
+        </ControlGroup>
+
         <ControlGroup title="ADSR">
           <Knob label="A" value={settings.envelope.attack} min={0.01} max={2} step={0.01} onChange={(v) => updateEnvelope('attack', v)} {...commonProps('envelope.attack')} />
           <Knob label="D" value={settings.envelope.decay} min={0.01} max={2} step={0.01} onChange={(v) => updateEnvelope('decay', v)} {...commonProps('envelope.decay')} />
@@ -227,13 +304,134 @@ const Controls: React.FC<ControlsProps> = ({
         </ControlGroup>
 
         <ControlGroup title="FILTER">
+          <div 
+            className={`grid grid-cols-2 gap-0.5 p-1 rounded transition-all duration-300 relative ${isLearnMode ? 'cursor-pointer hover:bg-amber-500/5' : ''} ${learningParam === 'filter.type' ? 'bg-amber-500/10 ring-1 ring-amber-500/50 shadow-[0_0_15px_rgba(245,158,11,0.2)]' : ''}`}
+            onClick={() => {
+              if (isLearnMode && setLearningParam) {
+                setLearningParam(learningParam === 'filter.type' ? null : 'filter.type');
+              }
+            }}
+          >
+            {FILTER_TYPES.map((type) => (
+              <button 
+                key={type} 
+                onClick={() => {
+                  if (isLearnMode) return;
+                  setSettings(p => ({ ...p, filter: { ...p.filter, type } }));
+                }} 
+                className={`w-5 py-0.5 rounded text-[5px] font-black uppercase border transition-all ${settings.filter.type === type ? (isLearnMode ? 'bg-amber-500 text-black border-amber-400' : 'bg-cyan-500 text-black border-cyan-400 shadow-[0_0_5px_rgba(6,182,212,0.4)]') : 'bg-black border-zinc-800 text-zinc-700'} ${isLearnMode ? 'pointer-events-none' : ''}`}
+              >
+                {FILTER_TYPE_LABELS[type]}
+              </button>
+            ))}
+            <button 
+              onClick={() => {
+                if (isLearnMode) return;
+                setSettings(p => ({ ...p, filter: { ...p.filter, slope: p.filter.slope === 24 ? 12 : 24 } }));
+              }} 
+              className={`w-5 py-0.5 rounded text-[5px] font-black uppercase border transition-all ${settings.filter.slope === 24 ? 'bg-zinc-800 text-cyan-400 border-cyan-900' : 'bg-black border-zinc-800 text-zinc-600'} ${isLearnMode ? 'pointer-events-none' : ''}`}
+              title="Filter Slope (dB/oct)"
+            >
+              {settings.filter.slope}
+            </button>
+            {isLearnMode && getMappedCC('filter.type') && (
+              <div className="absolute -top-2 -left-2 bg-amber-600 text-black text-[5px] font-black px-1.5 py-0.5 rounded scale-75 border border-amber-400 z-10 shadow-lg">
+                CC {getMappedCC('filter.type')}
+              </div>
+            )}
+            {learningParam === 'filter.type' && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <Crosshair size={12} className="text-amber-500 animate-pulse" />
+              </div>
+            )}
+          </div>
           <Knob label="CUT" value={settings.filter.frequency} min={20} max={15000} step={1} onChange={(v) => updateFilter('frequency', v)} {...commonProps('filter.frequency')} />
           <Knob label="RES" value={settings.filter.resonance} min={0.1} max={20} step={0.1} onChange={(v) => updateFilter('resonance', v)} {...commonProps('filter.resonance')} />
+          <Knob label="ENV" value={settings.filter.envAmount} min={-1} max={1} step={0.01} onChange={(v) => updateFilter('envAmount', v)} {...commonProps('filter.envAmount')} />
+          <Knob label="KEY" value={settings.filter.keyTrack} min={0} max={1} step={0.01} onChange={(v) => updateFilter('keyTrack', v)} {...commonProps('filter.keyTrack')} />
+        </ControlGroup>
+
+        <ControlGroup title="FILTER ENV">
+          <Knob label="A" value={settings.filterEnvelope.attack} min={0.001} max={2} step={0.01} size={24} onChange={(v) => updateFilterEnvelope('attack', v)} {...commonProps('filterEnvelope.attack')} />
+          <Knob label="D" value={settings.filterEnvelope.decay} min={0.01} max={2} step={0.01} size={24} onChange={(v) => updateFilterEnvelope('decay', v)} {...commonProps('filterEnvelope.decay')} />
+          <Knob label="S" value={settings.filterEnvelope.sustain} min={0} max={1} step={0.01} size={24} onChange={(v) => updateFilterEnvelope('sustain', v)} {...commonProps('filterEnvelope.sustain')} />
+          <Knob label="R" value={settings.filterEnvelope.release} min={0.01} max={3} step={0.01} size={24} onChange={(v) => updateFilterEnvelope('release', v)} {...commonProps('filterEnvelope.release')} />
+        </ControlGroup>
+
+        <ControlGroup title="VELOCITY">
+          <button
+            onClick={() => { if (!isLearnMode) cycleVelocityCurve(); }}
+            className={`w-9 py-1 rounded text-[5px] font-black uppercase border transition-all bg-black border-zinc-800 text-cyan-500 ${isLearnMode ? 'pointer-events-none opacity-50' : 'hover:border-cyan-800'}`}
+            title="Velocity Curve"
+          >
+            {settings.velocity.curve}
+          </button>
+          <Knob label="AMP" value={settings.velocity.ampAmount} min={0} max={1} step={0.01} onChange={(v) => updateVelocity('ampAmount', v)} {...commonProps('velocity.ampAmount')} />
+          <Knob label="FLT" value={settings.velocity.filterAmount} min={0} max={1} step={0.01} onChange={(v) => updateVelocity('filterAmount', v)} {...commonProps('velocity.filterAmount')} />
+        </ControlGroup>
+
+        <ControlGroup title="PERFORM">
+          <Knob label="BEND" value={settings.performance.bendRange} min={0} max={24} step={1} onChange={(v) => updatePerformance('bendRange', v)} {...commonProps('performance.bendRange')} />
+          <Knob label="VIB" value={settings.performance.vibratoDepth} min={0} max={100} step={1} onChange={(v) => updatePerformance('vibratoDepth', v)} {...commonProps('performance.vibratoDepth')} />
+          <Knob label="RATE" value={settings.performance.vibratoRate} min={0.1} max={12} step={0.1} onChange={(v) => updatePerformance('vibratoRate', v)} {...commonProps('performance.vibratoRate')} />
+          <Knob label="M>F" value={settings.performance.modFilterDepth} min={0} max={1} step={0.01} onChange={(v) => updatePerformance('modFilterDepth', v)} {...commonProps('performance.modFilterDepth')} />
+          <div className="flex flex-col items-center gap-1">
+            <button
+              onClick={() => { if (!isLearnMode) cyclePressureTarget(); }}
+              className={`w-9 py-1 rounded text-[5px] font-black uppercase border transition-all bg-black border-zinc-800 text-cyan-500 ${isLearnMode ? 'pointer-events-none opacity-50' : 'hover:border-cyan-800'}`}
+              title="Aftertouch Destination"
+            >
+              AT {settings.performance.pressureTarget}
+            </button>
+            <Knob label="AT" value={settings.performance.pressureAmount} min={0} max={1} step={0.01} size={20} onChange={(v) => updatePerformance('pressureAmount', v)} {...commonProps('performance.pressureAmount')} />
+          </div>
+        </ControlGroup>
+
+        <ControlGroup title="LFO">
+          {(['lfo1', 'lfo2'] as const).map((id, i) => {
+            const lfo = settings[id];
+            const division = LFO_DIVISIONS.find(d => d.beats === lfo.division) || LFO_DIVISIONS[2];
+            const chip = (active: boolean) => `w-8 py-0.5 rounded text-[5px] font-black uppercase border transition-all ${active ? 'bg-zinc-800 text-cyan-400 border-cyan-900' : 'bg-black border-zinc-800 text-zinc-600'} ${isLearnMode ? 'pointer-events-none opacity-50' : 'hover:border-cyan-800'}`;
+            return (
+              <div key={id} className={`flex items-center gap-1 ${i > 0 ? 'pl-2 border-l border-zinc-800/30' : ''}`}>
+                <div className="flex flex-col gap-0.5">
+                  <button onClick={() => updateLfo(id, { destination: nextOf(LFO_DESTINATIONS, lfo.destination) })} className={chip(true)} title={`LFO ${i + 1} Destination`}>
+                    {i + 1}&gt;{lfo.destination}
+                  </button>
+                  <button onClick={() => updateLfo(id, { waveform: nextOf(WAVEFORMS, lfo.waveform) })} className={chip(false)} title={`LFO ${i + 1} Waveform`}>
+                    {lfo.waveform.slice(0, 3)}
+                  </button>
+                  <div className="flex gap-0.5">
+                    <button onClick={() => updateLfo(id, { sync: !lfo.sync })} className={`${chip(lfo.sync)} w-[15px]`} title="Tempo Sync">S</button>
+                    <button onClick={() => updateLfo(id, { retrigger: !lfo.retrigger })} className={`${chip(lfo.retrigger)} w-[15px]`} title="Key Retrigger">K</button>
+                  </div>
+                </div>
+                {lfo.sync ? (
+                  <button
+                    onClick={() => updateLfo(id, { division: nextOf(LFO_DIVISIONS, division).beats })}
+                    className={`${chip(true)} h-6`}
+                    title="Synced Rate"
+                  >
+                    {division.label}
+                  </button>
+                ) : (
+                  <Knob label="RATE" value={lfo.rate} min={0.05} max={20} step={0.05} size={24} onChange={(v) => updateLfo(id, { rate: v })} {...commonProps(`${id}.rate`)} />
+                )}
+                <Knob label="DEPTH" value={lfo.depth} min={0} max={1} step={0.01} size={24} onChange={(v) => updateLfo(id, { depth: v })} {...commonProps(`${id}.depth`)} />
+              </div>
+            );
+          })}
         </ControlGroup>
 
         <ControlGroup title="FX">
           <Knob label="DEL" value={settings.delay} min={0} max={0.8} step={0.01} onChange={(v) => setSettings(p => ({ ...p, delay: v }))} {...commonProps('delay')} />
           <Knob label="REV" value={settings.reverb} min={0} max={0.8} step={0.01} onChange={(v) => setSettings(p => ({ ...p, reverb: v }))} {...commonProps('reverb')} />
+          <div className="grid grid-cols-2 gap-x-1 gap-y-0.5">
+            <Knob label="SIZE" value={settings.reverbParams.size} min={0} max={1} step={0.01} size={20} onChange={(v) => updateReverb('size', v)} {...commonProps('reverbParams.size')} />
+            <Knob label="DCY" value={settings.reverbParams.decay} min={0.1} max={8} step={0.1} size={20} onChange={(v) => updateReverb('decay', v)} {...commonProps('reverbParams.decay')} />
+            <Knob label="PRE" value={settings.reverbParams.preDelay} min={0} max={0.5} step={0.01} size={20} onChange={(v) => updateReverb('preDelay', v)} {...commonProps('reverbParams.preDelay')} />
+            <Knob label="DMP" value={settings.reverbParams.damping} min={0} max={1} step={0.01} size={20} onChange={(v) => updateReverb('damping', v)} {...commonProps('reverbParams.damping')} />
+          </div>
           <div className="flex flex-col items-center gap-1.5 px-2 border-l border-zinc-800/30 ml-1">
              <span className="text-[5px] font-black text-zinc-600 uppercase tracking-tighter">Glide</span>
              <button 
@@ -0,0 +1,66 @@
+import React from 'react';
+import { InputSettings, ScaleType, Language } from '../types';
+import { TRANSLATIONS, NOTE_NAMES, SCALES } from '../constants';
+import { Music, Magnet, Target } from 'lucide-react';
+
+interface InputModesProps {
+  input: InputSettings;
+  onChange: (input: InputSettings) => void;
+  isLearningChord: boolean;
+  onLearnChord: () => void;
+  lang: Language;
+}
+
+const selectClass = "bg-zinc-900 border border-zinc-800 rounded px-1.5 py-0.5 text-[8px] font-black text-zinc-300 uppercase focus:outline-none focus:border-cyan-700";
+
+const toggleClass = (active: boolean) =>
+  `flex items-center gap-1.5 px-2 py-1 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${active ? 'bg-cyan-600 border-cyan-500 text-black' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'}`;
+
+const InputModes: React.FC<InputModesProps> = ({ input, onChange, isLearningChord, onLearnChord, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const update = (changes: Partial<InputSettings>) => onChange({ ...input, ...changes });
+
+  const getScaleLabel = (scale: ScaleType) => {
+    switch(scale) {
+      case 'major': return t.scaleMajor;
+      case 'minor': return t.scaleMinor;
+      case 'dorian': return t.scaleDorian;
+      case 'mixolydian': return t.scaleMixolydian;
+      case 'harmonicMinor': return t.scaleHarmonicMinor;
+      case 'majorPentatonic': return t.scaleMajorPentatonic;
+      case 'minorPentatonic': return t.scaleMinorPentatonic;
+      case 'blues': return t.scaleBlues;
+      default: return '';
+    }
+  };
+
+  return (
+    <div className="shrink-0 px-4 py-1.5 flex items-center gap-3 flex-wrap bg-zinc-950/60 border-b border-zinc-900">
+      <button onClick={() => update({ chordMemory: !input.chordMemory })} className={toggleClass(input.chordMemory)}>
+        <Music size={10} /> {t.chordMemory}
+      </button>
+      <button
+        onClick={onLearnChord}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded border text-[8px] font-black uppercase ${isLearningChord ? 'bg-amber-500 border-amber-400 text-black animate-pulse' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-amber-400'}`}
+        title={t.learnChordHint}
+      >
+        <Target size={9} /> {isLearningChord ? t.playChord : t.learn}
+      </button>
+      <span className="text-[8px] font-black text-zinc-500 mono">{input.chord.map(offset => NOTE_NAMES[offset % 12]).join('·')}</span>
+
+      <div className="w-px h-4 bg-zinc-800" />
+
+      <button onClick={() => update({ scaleLock: !input.scaleLock })} className={toggleClass(input.scaleLock)}>
+        <Magnet size={10} /> {t.scaleLock}
+      </button>
+      <select value={input.root} onChange={(e) => update({ root: parseInt(e.target.value) })} className={selectClass}>
+        {NOTE_NAMES.map((name, i) => <option key={name} value={i}>{name}</option>)}
+      </select>
+      <select value={input.scale} onChange={(e) => update({ scale: e.target.value as ScaleType })} className={selectClass}>
+        {(Object.keys(SCALES) as ScaleType[]).map(id => <option key={id} value={id}>{getScaleLabel(id)}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default InputModes;
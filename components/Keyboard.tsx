@@ -1,19 +1,47 @@
 
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { NOTES, KEY_BINDINGS } from '../constants';
-import { SynthSettings } from '../types';
+import { NOTES, KEY_BINDINGS, KEYBOARD_BASE_NOTE, KEYBOARD_OCTAVES, MAX_OCTAVE_SHIFT, frequencyToMidiNote, midiNoteToFrequency, getNoteLabel } from '../constants';
+import { isInScale } from '../services/noteInput';
+import { KeyboardLayout } from '../types';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface KeyboardProps {
-  onNoteStart: (note: string, freq: number) => void;
+  onNoteStart: (note: string, freq: number, velocity?: number) => void;
   onNoteEnd: (note: string) => void;
-  settings: SynthSettings;
+  // When set, keys outside the scale are dimmed and the root is marked
+  scale?: { root: number; intervals: number[] } | null;
+  layout: KeyboardLayout;
+  onLayoutChange: (layout: KeyboardLayout) => void;
+  // Off while another panel owns the computer keyboard; keys already held still release
+  qwertyEnabled: boolean;
 }
 
-const Keyboard: React.FC<KeyboardProps> = ({ onNoteStart, onNoteEnd }) => {
+// MIDI note each QWERTY key plays before any octave shift
+const QWERTY_NOTES: Record<string, number> = Object.fromEntries(
+  Object.entries(KEY_BINDINGS).map(([key, label]) => [key, frequencyToMidiNote(NOTES.find(n => n.label === label)!.freq)])
+);
+
+const OCTAVE_DOWN_KEY = '[';
+const OCTAVE_UP_KEY = ']';
+
+// Extra octaves beyond the default two are split either side of the QWERTY range
+const visibleKeys = (layout: KeyboardLayout) => {
+  const low = Math.max(0, KEYBOARD_BASE_NOTE + layout.octaveShift * 12 - Math.floor((layout.octaves - 2) / 2) * 12);
+  const high = Math.min(127, low + layout.octaves * 12);
+  return Array.from({ length: high - low + 1 }, (_, i) => low + i).map(midiNote => ({
+    midiNote,
+    label: getNoteLabel(midiNote),
+    freq: midiNoteToFrequency(midiNote),
+  }));
+};
+
+const Keyboard: React.FC<KeyboardProps> = ({ onNoteStart, onNoteEnd, scale, layout, onLayoutChange, qwertyEnabled }) => {
   const [activeKeys, setActiveKeys] = useState<Set<string>>(new Set());
   // pressingKeys is used to trigger the "mechanical" animation class
   const [pressingKeys, setPressingKeys] = useState<Set<string>>(new Set());
   const pressedKeysRef = useRef<Set<string>>(new Set());
+  // Which note each held QWERTY key started, so releasing it after a shift still ends that note
+  const qwertyHeldRef = useRef<Map<string, string>>(new Map());
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Drag states
@@ -79,19 +107,33 @@ const Keyboard: React.FC<KeyboardProps> = ({ onNoteStart, onNoteEnd }) => {
     });
   }, [onNoteEnd]);
 
+  const shiftOctave = useCallback((direction: number) => {
+    const octaveShift = Math.max(-MAX_OCTAVE_SHIFT, Math.min(MAX_OCTAVE_SHIFT, layout.octaveShift + direction));
+    if (octaveShift !== layout.octaveShift) onLayoutChange({ ...layout, octaveShift });
+  }, [layout, onLayoutChange]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.repeat || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
-      const noteLabel = KEY_BINDINGS[e.key.toLowerCase()];
-      if (noteLabel) {
-        const noteData = NOTES.find(n => n.label === noteLabel);
-        if (noteData) handleKeyStart(noteLabel, noteData.freq);
+      if (!qwertyEnabled || e.repeat || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === OCTAVE_DOWN_KEY || key === OCTAVE_UP_KEY) {
+        shiftOctave(key === OCTAVE_UP_KEY ? 1 : -1);
+        return;
       }
+      const base = QWERTY_NOTES[key];
+      if (base === undefined) return;
+      const midiNote = Math.max(0, Math.min(127, base + layout.octaveShift * 12));
+      const noteLabel = getNoteLabel(midiNote);
+      qwertyHeldRef.current.set(key, noteLabel);
+      handleKeyStart(noteLabel, midiNoteToFrequency(midiNote));
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      const noteLabel = KEY_BINDINGS[e.key.toLowerCase()];
-      if (noteLabel) handleKeyEnd(noteLabel);
+      const key = e.key.toLowerCase();
+      const noteLabel = qwertyHeldRef.current.get(key);
+      if (!noteLabel) return;
+      qwertyHeldRef.current.delete(key);
+      handleKeyEnd(noteLabel);
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -100,7 +142,7 @@ const Keyboard: React.FC<KeyboardProps> = ({ onNoteStart, onNoteEnd }) => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [handleKeyStart, handleKeyEnd]);
+  }, [handleKeyStart, handleKeyEnd, shiftOctave, layout.octaveShift, qwertyEnabled]);
 
   const handleNoteAction = (noteLabel: string, freq: number, isStart: boolean) => {
     if (isPanning && hasMoved.current) return;
@@ -126,63 +168,113 @@ const Keyboard: React.FC<KeyboardProps> = ({ onNoteStart, onNoteEnd }) => {
     setIsPanning(false);
   };
 
+  const keys = visibleKeys(layout);
+  const qwertyLabels: Record<number, string> = {};
+  Object.entries(QWERTY_NOTES).forEach(([key, base]) => { qwertyLabels[base + layout.octaveShift * 12] = key; });
+
   return (
-    <div 
-      ref={containerRef}
-      className="w-full h-full bg-black overflow-x-auto no-scrollbar touch-none select-none flex flex-col relative"
-      onMouseDown={(e) => startPanning(e.clientX)}
-      onMouseMove={(e) => onPanning(e.clientX)}
-      onMouseUp={stopPanning}
-      onMouseLeave={stopPanning}
-      onTouchStart={(e) => startPanning(e.touches[0].clientX)}
-      onTouchMove={(e) => onPanning(e.touches[0].clientX)}
-      onTouchEnd={stopPanning}
-    >
-      <div className="flex-1 flex gap-px relative min-w-max h-full p-2 pt-4 pb-12">
-        {NOTES.map((note) => {
-          const isBlack = note.label.includes('#');
-          const isActive = activeKeys.has(note.label);
-          const isPressing = pressingKeys.has(note.label);
-          
-          return (
-            <div
-              key={note.label}
-              onMouseDown={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, true); }}
-              onMouseUp={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, false); }}
-              onMouseEnter={(e) => { if (e.buttons === 1) handleNoteAction(note.label, note.freq, true); }}
-              onMouseLeave={(e) => { handleNoteAction(note.label, note.freq, false); }}
-              onTouchStart={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, true); }}
-              onTouchEnd={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, false); }}
-              className={`
-                flex flex-col items-center justify-end pb-8 cursor-pointer rounded-b-2xl relative transition-all
-                ${isBlack 
-                  ? `bg-zinc-900 w-10 sm:w-12 h-[60%] z-20 -mx-5 sm:-mx-6 border-x border-b border-zinc-700 black-key ${isActive ? 'black-key-active' : ''}` 
-                  : `bg-white w-16 sm:w-20 h-full border border-zinc-200 z-10 white-key ${isActive ? 'white-key-active' : ''}`}
-                ${isActive ? 'key-active' : ''}
-                ${isPressing ? 'key-pressing' : ''}
-              `}
+    <div className="w-full h-full bg-black flex flex-col">
+      <div className="shrink-0 flex items-center gap-2 px-3 py-1 bg-zinc-950 border-b border-zinc-900 z-30">
+        <button
+          onClick={() => shiftOctave(-1)}
+          disabled={layout.octaveShift <= -MAX_OCTAVE_SHIFT}
+          className="p-1 rounded bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-cyan-400 disabled:opacity-30"
+          title={`Octave Down (${OCTAVE_DOWN_KEY})`}
+        >
+          <ChevronLeft size={12} />
+        </button>
+        <span className="w-12 text-center text-[8px] font-black uppercase text-cyan-500 mono">
+          Oct {layout.octaveShift > 0 ? '+' : ''}{layout.octaveShift}
+        </span>
+        <button
+          onClick={() => shiftOctave(1)}
+          disabled={layout.octaveShift >= MAX_OCTAVE_SHIFT}
+          className="p-1 rounded bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-cyan-400 disabled:opacity-30"
+          title={`Octave Up (${OCTAVE_UP_KEY})`}
+        >
+          <ChevronRight size={12} />
+        </button>
+        <span className="text-[8px] font-black text-zinc-600 mono">{keys[0].label}–{keys[keys.length - 1].label}</span>
+
+        <div className="ml-auto flex items-center gap-1">
+          <span className="text-[7px] font-black uppercase text-zinc-600 mr-1">Range</span>
+          {KEYBOARD_OCTAVES.map(octaves => (
+            <button
+              key={octaves}
+              onClick={() => onLayoutChange({ ...layout, octaves })}
+              className={`w-5 py-0.5 rounded text-[8px] font-black mono border ${layout.octaves === octaves ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-800 text-zinc-600'}`}
             >
-              {/* Note Key Binding Indicator */}
-              <div className={`flex flex-col items-center leading-none transition-all duration-150 pointer-events-none mb-3 ${isActive ? 'key-label-active' : 'opacity-40'}`}>
-                <span className={`text-[8px] sm:text-[9px] font-black uppercase tracking-tighter ${isBlack ? 'text-zinc-500' : 'text-zinc-400'}`}>
-                  {Object.keys(KEY_BINDINGS).find(k => KEY_BINDINGS[k] === note.label)?.toUpperCase()}
-                </span>
-                <span className={`text-[9px] sm:text-[10px] font-bold mt-1 ${isBlack ? 'text-zinc-400' : 'text-zinc-600'}`}>
-                  {note.label}
-                </span>
-              </div>
+              {octaves}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div 
+        ref={containerRef}
+        className="w-full flex-1 min-h-0 bg-black overflow-x-auto no-scrollbar touch-none select-none flex flex-col relative"
+        onMouseDown={(e) => startPanning(e.clientX)}
+        onMouseMove={(e) => onPanning(e.clientX)}
+        onMouseUp={stopPanning}
+        onMouseLeave={stopPanning}
+        onTouchStart={(e) => startPanning(e.touches[0].clientX)}
+        onTouchMove={(e) => onPanning(e.touches[0].clientX)}
+        onTouchEnd={stopPanning}
+      >
+        <div className="flex-1 flex gap-px relative min-w-max h-full p-2 pt-4 pb-12">
+          {keys.map((note) => {
+            const isBlack = note.label.includes('#');
+            const isActive = activeKeys.has(note.label);
+            const isPressing = pressingKeys.has(note.label);
+            const midiNote = note.midiNote;
+            const outOfScale = scale ? !isInScale(midiNote, scale.root, scale.intervals) : false;
+            const isRoot = scale ? (midiNote - scale.root) % 12 === 0 : false;
+          
+            return (
+              <div
+                key={note.label}
+                onMouseDown={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, true); }}
+                onMouseUp={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, false); }}
+                onMouseEnter={(e) => { if (e.buttons === 1) handleNoteAction(note.label, note.freq, true); }}
+                onMouseLeave={(e) => { handleNoteAction(note.label, note.freq, false); }}
+                onTouchStart={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, true); }}
+                onTouchEnd={(e) => { e.stopPropagation(); handleNoteAction(note.label, note.freq, false); }}
+                className={`
+                  flex flex-col items-center justify-end pb-8 cursor-pointer rounded-b-2xl relative transition-all
+                  ${isBlack 
+                    ? `bg-zinc-900 w-10 sm:w-12 h-[60%] z-20 -mx-5 sm:-mx-6 border-x border-b border-zinc-700 black-key ${isActive ? 'black-key-active' : ''}` 
+                    : `bg-white w-16 sm:w-20 h-full border border-zinc-200 z-10 white-key ${isActive ? 'white-key-active' : ''}`}
+                  ${isActive ? 'key-active' : ''}
+                  ${isPressing ? 'key-pressing' : ''}
+                  ${outOfScale && !isActive ? 'opacity-40' : ''}
+                `}
+              >
+                {/* Scale Guide */}
+                {scale && !outOfScale && (
+                  <div className={`absolute top-3 w-2 h-2 rounded-full pointer-events-none ${isRoot ? 'bg-amber-500' : 'bg-cyan-500/70'}`} />
+                )}
+
+                {/* Note Key Binding Indicator */}
+                <div className={`flex flex-col items-center leading-none transition-all duration-150 pointer-events-none mb-3 ${isActive ? 'key-label-active' : 'opacity-40'}`}>
+                  <span className={`text-[8px] sm:text-[9px] font-black uppercase tracking-tighter ${isBlack ? 'text-zinc-500' : 'text-zinc-400'}`}>
+                    {qwertyLabels[midiNote]?.toUpperCase()}
+                  </span>
+                  <span className={`text-[9px] sm:text-[10px] font-bold mt-1 ${isBlack ? 'text-zinc-400' : 'text-zinc-600'}`}>
+                    {note.label}
+                  </span>
+                </div>
               
-              {/* Vibrant Cyan Active Accent (Especially distinct for mobile) */}
-              {isActive && (
-                <div className={`
-                  absolute inset-x-1 sm:inset-x-2 bottom-2 rounded-full transition-all duration-300
-                  ${isBlack ? 'h-1.5 bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.8)]' : 'h-2 bg-cyan-500 shadow-[0_0_20px_rgba(6,182,212,1)]'}
-                  animate-pulse
-                `} />
-              )}
-            </div>
-          );
-        })}
+                {/* Vibrant Cyan Active Accent (Especially distinct for mobile) */}
+                {isActive && (
+                  <div className={`
+                    absolute inset-x-1 sm:inset-x-2 bottom-2 rounded-full transition-all duration-300
+                    ${isBlack ? 'h-1.5 bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.8)]' : 'h-2 bg-cyan-500 shadow-[0_0_20px_rgba(6,182,212,1)]'}
+                    animate-pulse
+                  `} />
+                )}
+              </div>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
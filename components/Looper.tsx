@@ -1,37 +1,99 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { NoteEvent, RecordedLoop, SynthSettings, Language, LoopMode } from '../types';
-import { TRANSLATIONS } from '../constants';
+import { NoteEvent, NoteRelease, RecordedLoop, SynthSettings, Language, LoopMode, WavBitDepth, RecordedTake, TransportSettings, QuantizeSettings, LoopSync, StoredPreset } from '../types';
+import { TRANSLATIONS, TIME_SIGNATURES, COUNT_IN_BARS, MIN_BPM, MAX_BPM, QUANTIZE_DIVISIONS, DEFAULT_QUANTIZE, LOOP_RATES } from '../constants';
 import { audioEngine } from '../services/audioEngine';
+import { noteBus, NoteListener } from '../services/noteBus';
+import { scheduler } from '../services/scheduler';
+import { loadLoops, saveLoops } from '../services/loopStorage';
+import { renderLoops } from '../services/offlineRender';
+import { encodeWav } from '../services/wavEncoder';
+import { masterRecorder } from '../services/masterRecorder';
+import { encodeMidiFile, parseMidiFile } from '../services/midiFile';
+import { metronome, barDuration, snapToBars } from '../services/metronome';
+import { quantizeEvents } from '../services/quantize';
+import { resolveLoopPatch, loopPlaybackCycle, reverseCycle } from '../services/loopPlayback';
+import PianoRoll from './PianoRoll';
 import { 
   Circle, Play, Square, Music, Trash2, Repeat, ChevronDown, ChevronUp, Clock, 
   Settings2, Edit3, Check, X, AlertCircle, Undo2, Redo2,
-  ArrowRight, ArrowLeftRight, RefreshCcw
+  ArrowRight, ArrowLeftRight, RefreshCcw, Download, Loader2, Disc, Radio, Pause, FileMusic, FileUp, Magnet, Layers, Lock, SlidersHorizontal, Camera
 } from 'lucide-react';
 
+type PassDirection = 'forward' | 'backward';
+
+interface OverdubNote {
+  event: NoteEvent;
+  progress: number;
+  direction: PassDirection;
+  struckAt: number;
+}
+
+const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Quiet period (ms) before the loops are written to IndexedDB
+const SAVE_DELAY = 400;
+
+const toFileName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '-') || 'loop';
+
 interface LooperProps {
-  currentNotes: NoteEvent[];
   settings: SynthSettings;
-  onPlayEvent: (note: string, freq: number) => void;
-  onStopEvent: (note: string) => void;
+  presets: StoredPreset[];
   lang: Language;
+  transport: TransportSettings;
+  onTransportChange: (transport: TransportSettings) => void;
   isExpanded: boolean;
   onToggleExpand: () => void;
+  // The piano roll takes over the computer keyboard while it is open
+  onEditorOpenChange: (open: boolean) => void;
 }
 
 const Looper: React.FC<LooperProps> = ({ 
-  currentNotes, settings, onPlayEvent, onStopEvent, lang, isExpanded, onToggleExpand 
+  settings, presets, lang, transport, onTransportChange, isExpanded, onToggleExpand, onEditorOpenChange
 }) => {
   const [isRecording, setIsRecording] = useState(false);
-  const [playingLoopId, setPlayingLoopId] = useState<string | null>(null);
+  const [isCountingIn, setIsCountingIn] = useState(false);
+  const [bpmDraft, setBpmDraft] = useState(String(transport.bpm));
+  const [quantize, setQuantize] = useState<QuantizeSettings>(DEFAULT_QUANTIZE);
+  const countInTimer = useRef<number | null>(null);
+  const [playingLoopIds, setPlayingLoopIds] = useState<string[]>([]);
+  const [loopSync, setLoopSync] = useState<LoopSync>('bar');
+  const [overdubEnabled, setOverdubEnabled] = useState(false);
+  const [overdubTargetId, setOverdubTargetId] = useState<string | null>(null);
+  const [editorLoopId, setEditorLoopId] = useState<string | null>(null);
+  const [soundPanelId, setSoundPanelId] = useState<string | null>(null);
   const [loops, setLoops] = useState<RecordedLoop[]>([]);
   const loopsRef = useRef<RecordedLoop[]>([]);
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
   const [recordedEvents, setRecordedEvents] = useState<NoteEvent[]>([]);
   const [metronomeEnabled, setMetronomeEnabled] = useState(false);
   const [editingLoopId, setEditingLoopId] = useState<string | null>(null);
   const [editName, setEditName] = useState("");
   const [loopProgress, setLoopProgress] = useState<Record<string, number>>({});
   const [modeFeedback, setModeFeedback] = useState<Record<string, { mode: LoopMode, timestamp: number }>>({});
+  const [wavBitDepth, setWavBitDepth] = useState<WavBitDepth>(16);
+  const [renderingId, setRenderingId] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const midiInputRef = useRef<HTMLInputElement>(null);
+
+  // Master output takes
+  const [isTakeArmed, setIsTakeArmed] = useState(false);
+  const [isTakeRecording, setIsTakeRecording] = useState(false);
+  const [takes, setTakes] = useState<RecordedTake[]>([]);
+  const [playingTakeId, setPlayingTakeId] = useState<string | null>(null);
+  const takeAudioRef = useRef<HTMLAudioElement | null>(null);
+  const takesRef = useRef<RecordedTake[]>([]);
   
   // Undo/Redo Stacks
   const [undoStack, setUndoStack] = useState<RecordedLoop[][]>([]);
@@ -39,14 +101,76 @@ const Looper: React.FC<LooperProps> = ({
 
   const t = TRANSLATIONS[lang];
   const recordingStartTime = useRef<number>(0);
-  const playbackTimers = useRef<number[]>([]);
-  const progressIntervals = useRef<Record<string, number>>({});
+  const settingsRef = useRef<SynthSettings>(settings);
+  const presetsRef = useRef<StoredPreset[]>(presets);
+  const scheduledLoopIds = useRef<Set<string>>(new Set());
+  // Audio-clock start of each playing loop, used to line newcomers up with the running grid
+  const loopStarts = useRef<Map<string, number>>(new Map());
+  // Direction each scheduled pass plays in, keyed by loop id and pass index. Passes are
+  // scheduled ahead of time, so the pass being heard is looked up rather than the latest one.
+  const passDirections = useRef<Map<string, PassDirection>>(new Map());
+  // Overdub notes waiting for their release: where in the heard pass they were struck, and when
+  const overdubPending = useRef<OverdubNote[]>([]);
 
-  // Sync ref with state for playback logic
+  // Sync refs with state for playback logic
   useEffect(() => {
     loopsRef.current = loops;
   }, [loops]);
 
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  useEffect(() => {
+    presetsRef.current = presets;
+  }, [presets]);
+
+  useEffect(() => {
+    metronome.setTransport(transport);
+    setBpmDraft(String(transport.bpm));
+  }, [transport]);
+
+  useEffect(() => () => {
+    metronome.stop();
+    if (countInTimer.current !== null) window.clearTimeout(countInTimer.current);
+  }, []);
+
+  // Restore saved loops once; history starts fresh from what is on disk
+  useEffect(() => {
+    loadLoops()
+      .then(stored => {
+        setLoops(prev => [...stored, ...prev]);
+        setUndoStack([]);
+        setRedoStack([]);
+      })
+      .catch(e => console.error(e))
+      .finally(() => setIsStorageLoaded(true));
+  }, []);
+
+  // Every change, including undo/redo, is written through so disk matches the visible state.
+  // Writes wait for edits to settle, so dragging a slider stores the loops once rather than per step.
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    const timer = window.setTimeout(() => saveLoops(loops).catch(e => console.error(e)), SAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [loops, isStorageLoaded]);
+
+  // Progress bars follow the audio clock rather than wall time
+  useEffect(() => {
+    if (playingLoopIds.length === 0) return;
+    const progInt = window.setInterval(() => {
+      setLoopProgress(prev => {
+        const next = { ...prev };
+        playingLoopIds.forEach(id => {
+          const progress = scheduler.getProgress(id);
+          if (progress !== null) next[id] = progress * 100;
+        });
+        return next;
+      });
+    }, 16);
+    return () => window.clearInterval(progInt);
+  }, [playingLoopIds]);
+
   // Helper to push history state
   const pushToHistory = useCallback((currentLoops: RecordedLoop[]) => {
     setUndoStack(prev => [...prev, [...currentLoops]].slice(-20));
@@ -54,14 +178,26 @@ const Looper: React.FC<LooperProps> = ({
   }, []);
 
   const stopPlayback = useCallback(() => {
-    setPlayingLoopId(null);
-    playbackTimers.current.forEach(clearTimeout);
-    playbackTimers.current = [];
-    Object.values(progressIntervals.current).forEach(clearInterval);
-    progressIntervals.current = {};
+    setPlayingLoopIds([]);
+    setOverdubTargetId(null);
+    overdubPending.current = [];
+    scheduledLoopIds.current.forEach(id => scheduler.remove(id));
+    scheduledLoopIds.current.clear();
+    loopStarts.current.clear();
     setLoopProgress({});
   }, []);
 
+  const stopLoop = (loopId: string) => {
+    scheduler.remove(loopId);
+    scheduledLoopIds.current.delete(loopId);
+    loopStarts.current.delete(loopId);
+    setPlayingLoopIds(prev => prev.filter(id => id !== loopId));
+    setLoopProgress(prev => ({ ...prev, [loopId]: 0 }));
+    if (overdubTargetId === loopId) stopOverdub();
+  };
+
+  useEffect(() => stopPlayback, [stopPlayback]);
+
   const performUndo = useCallback(() => {
     if (undoStack.length === 0) return;
     const previous = undoStack[undoStack.length - 1];
@@ -96,97 +232,378 @@ const Looper: React.FC<LooperProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [performUndo, performRedo]);
 
+  const recordNoteStart = (event: NoteEvent) => {
+    setRecordedEvents(prev => [...prev, { ...event, timestamp: Math.max(0, event.timestamp - recordingStartTime.current) }]);
+  };
+
+  // Close the most recent open note of the same pitch so playback knows how long it was held
+  const recordNoteEnd = (release: NoteRelease) => {
+    const releasedAt = release.timestamp - recordingStartTime.current;
+    setRecordedEvents(prev => {
+      const index = prev.map(e => e.note === release.note && e.duration === undefined).lastIndexOf(true);
+      if (index === -1) return prev;
+      const next = [...prev];
+      next[index] = { ...next[index], duration: Math.max(0, releasedAt - next[index].timestamp) };
+      return next;
+    });
+  };
+
   useEffect(() => {
-    if (isRecording && currentNotes.length > 0) {
-      const latest = currentNotes[currentNotes.length - 1];
-      setRecordedEvents(prev => [...prev, { ...latest, timestamp: Date.now() - recordingStartTime.current }]);
+    takesRef.current = takes;
+  }, [takes]);
+
+  // Object URLs outlive the component unless released explicitly
+  useEffect(() => () => {
+    takeAudioRef.current?.pause();
+    masterRecorder.stop();
+    takesRef.current.forEach(take => URL.revokeObjectURL(take.url));
+  }, []);
+
+  const startTake = () => {
+    setIsTakeArmed(false);
+    setIsTakeRecording(masterRecorder.start());
+  };
+
+  const stopTake = async () => {
+    setIsTakeRecording(false);
+    const captured = await masterRecorder.stop();
+    if (!captured) return;
+    setTakes(prev => [...prev, {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `TAKE ${prev.length + 1}`,
+      url: URL.createObjectURL(captured.blob),
+      mimeType: captured.blob.type,
+      duration: captured.duration,
+    }]);
+  };
+
+
+  const toggleTakeRecording = () => {
+    if (isTakeRecording) stopTake();
+    else startTake();
+  };
+
+  const playTake = (take: RecordedTake) => {
+    takeAudioRef.current?.pause();
+    if (playingTakeId === take.id) {
+      setPlayingTakeId(null);
+      return;
+    }
+    const audio = new Audio(take.url);
+    audio.onended = () => setPlayingTakeId(prev => prev === take.id ? null : prev);
+    audio.play().catch(e => console.error(e));
+    takeAudioRef.current = audio;
+    setPlayingTakeId(take.id);
+  };
+
+  const deleteTake = (id: string) => {
+    if (playingTakeId === id) {
+      takeAudioRef.current?.pause();
+      setPlayingTakeId(null);
+    }
+    setTakes(prev => {
+      const take = prev.find(t => t.id === id);
+      if (take) URL.revokeObjectURL(take.url);
+      return prev.filter(t => t.id !== id);
+    });
+  };
+
+  const downloadTake = (take: RecordedTake) => {
+    const extension = take.mimeType.includes('ogg') ? 'ogg' : take.mimeType.includes('mp4') ? 'm4a' : 'webm';
+    downloadUrl(take.url, `${toFileName(take.name)}.${extension}`);
+  };
+
+  // A single loop goes out as type 0; the whole set as type 1 with one track per loop
+  const exportMidi = (targets: RecordedLoop[], fileName: string) => {
+    if (targets.length === 0) return;
+    const bytes = encodeMidiFile(targets, {
+      format: targets.length === 1 ? 0 : 1,
+      bpm: transport.bpm,
+      beatsPerBar: transport.beatsPerBar,
+      beatUnit: transport.beatUnit,
+    });
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `${toFileName(fileName)}.mid`);
+  };
+
+  const importMidi = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileError(null);
+    try {
+      const loop = parseMidiFile(await file.arrayBuffer(), file.name.replace(/\.midi?$/i, '').toUpperCase());
+      if (loop.events.length === 0) {
+        setFileError(t.midiImportEmpty);
+        return;
+      }
+      pushToHistory(loops);
+      setLoops(prev => [...prev, loop]);
+    } catch (err) {
+      console.error(err);
+      setFileError(t.midiImportFailed);
     }
-  }, [currentNotes, isRecording]);
+  };
+
+  // Overdub notes are placed at the target loop's current position and merged once released,
+  // so every following pass plays all the layers recorded so far
+  const overdubNoteStart = (event: NoteEvent) => {
+    if (!overdubTargetId) return;
+    const loop = loopsRef.current.find(l => l.id === overdubTargetId);
+    const pass = scheduler.getPass(overdubTargetId);
+    if (!loop || !pass) return;
+    // Stored untransposed so the loop's transpose brings it back to the pitch that was played
+    const frequency = event.frequency / Math.pow(2, (loop.transpose ?? 0) / 12);
+    overdubPending.current.push({
+      event: { ...event, frequency },
+      progress: pass.progress,
+      direction: passDirections.current.get(`${overdubTargetId}:${pass.index}`) ?? 'forward',
+      struckAt: event.timestamp,
+    });
+  };
+
+  // Converts a held overdub note from wall-clock time to the loop's own time. The loop plays at
+  // its rate, so real milliseconds are scaled up by it; on a backward pass the note is stored
+  // where it has to sit for reversal to put it back under the finger.
+  const placeOverdub = (pending: OverdubNote, releasedAt: number): NoteEvent | null => {
+    const loop = loopsRef.current.find(l => l.id === overdubTargetId);
+    if (!loop) return null;
+    const rate = loop.rate && loop.rate > 0 ? loop.rate : 1;
+    const duration = Math.max(0, releasedAt - pending.struckAt) * rate;
+    const position = pending.progress * loop.duration;
+    const timestamp = pending.direction === 'forward' ? position : Math.max(0, loop.duration - position - duration);
+    return { ...pending.event, timestamp, duration };
+  };
+
+  const overdubNoteEnd = (release: NoteRelease) => {
+    if (!overdubTargetId) return;
+    const index = overdubPending.current.map(p => p.event.note === release.note).lastIndexOf(true);
+    if (index === -1) return;
+    const [pending] = overdubPending.current.splice(index, 1);
+    const placed = placeOverdub(pending, release.timestamp);
+    if (placed) mergeOverdub([placed]);
+  };
+
+  // Played notes arrive one call each from the note bus. The handlers are refreshed every render
+  // so they always see the current recording, overdub and take state.
+  const noteHandlers = useRef<NoteListener>({});
+  noteHandlers.current = {
+    onNoteStart: (event) => {
+      // An armed take starts with the first note played, so it does not open on silence
+      if (isTakeArmed && !masterRecorder.isRecording()) startTake();
+      if (isRecording) recordNoteStart(event);
+      overdubNoteStart(event);
+    },
+    onNoteEnd: (release) => {
+      if (isRecording) recordNoteEnd(release);
+      overdubNoteEnd(release);
+    },
+  };
+
+  useEffect(() => noteBus.subscribe({
+    onNoteStart: (event) => noteHandlers.current.onNoteStart?.(event),
+    onNoteEnd: (release) => noteHandlers.current.onNoteEnd?.(release),
+  }), []);
+
+  const mergeOverdub = (events: NoteEvent[]) => {
+    const targetId = overdubTargetId;
+    if (!targetId || events.length === 0) return;
+    setLoops(prev => prev.map(l => {
+      if (l.id !== targetId) return l;
+      const layer = quantize.onRecord ? quantizeEvents(events, l.duration, transport.bpm, quantize) : events;
+      return { ...l, events: [...l.events, ...layer].sort((a, b) => a.timestamp - b.timestamp) };
+    }));
+  };
+
+  // The whole layer is one history step, so undo peels off exactly what this pass added
+  const startOverdub = () => {
+    const targetId = playingLoopIds[playingLoopIds.length - 1];
+    if (!targetId) return;
+    pushToHistory(loops);
+    overdubPending.current = [];
+    setOverdubTargetId(targetId);
+  };
+
+  const stopOverdub = () => {
+    const now = Date.now();
+    mergeOverdub(overdubPending.current.map(p => placeOverdub(p, now)).filter((e): e is NoteEvent => e !== null));
+    overdubPending.current = [];
+    setOverdubTargetId(null);
+  };
 
+  // The click restarts on a fresh downbeat so the recording lines up with the bar grid.
+  // Without the continuous click, the count-in bars still sound and then stop.
   const startRecording = () => {
-    setIsRecording(true);
+    if (overdubEnabled && playingLoopIds.length > 0) {
+      startOverdub();
+      return;
+    }
+    // With loops running, the count-in and the take start on their next bar line so the new
+    // loop snaps into the same grid
+    const now = scheduler.now();
+    const downbeat = nextSyncPoint('bar');
+    const countIn = transport.countInBars * barDuration(transport);
+    if (metronomeEnabled) metronome.start(downbeat);
+    else if (transport.countInBars > 0) metronome.start(downbeat, transport.countInBars);
+
     setRecordedEvents([]);
-    recordingStartTime.current = Date.now();
-    if (metronomeEnabled) {
-      audioEngine.playNote(880, "METRO", { ...settings, envelope: { attack: 0.01, decay: 0.05, sustain: 0, release: 0.01 }});
-      setTimeout(() => audioEngine.stopNote("METRO", settings), 100);
+    recordingStartTime.current = Date.now() + (downbeat - now) * 1000 + countIn;
+    if (countIn > 0) {
+      setIsCountingIn(true);
+      countInTimer.current = window.setTimeout(() => {
+        countInTimer.current = null;
+        setIsCountingIn(false);
+        setIsRecording(true);
+      }, recordingStartTime.current - Date.now());
+    } else {
+      setIsRecording(true);
     }
   };
 
   const stopRecording = () => {
+    if (overdubTargetId) {
+      stopOverdub();
+      return;
+    }
+    if (isCountingIn) {
+      if (countInTimer.current !== null) window.clearTimeout(countInTimer.current);
+      countInTimer.current = null;
+      setIsCountingIn(false);
+      if (!metronomeEnabled) metronome.stop();
+      return;
+    }
     setIsRecording(false);
     if (recordedEvents.length > 0) {
       pushToHistory(loops);
       const newId = Math.random().toString(36).substr(2, 9);
-      const loopDuration = Date.now() - recordingStartTime.current;
+      // Rounding down to the nearest bar never cuts notes off: a loop always reaches the end of
+      // the bar holding its last note
+      const bar = barDuration(transport);
+      const lastStart = Math.max(...recordedEvents.map(e => e.timestamp));
+      const loopDuration = Math.max(snapToBars(Date.now() - recordingStartTime.current, transport), (Math.floor(lastStart / bar) + 1) * bar);
+      // Notes still held when recording stops, or running past the end, last until the end of the loop
+      const trimmed = recordedEvents.map(e => ({ ...e, duration: Math.min(e.duration ?? Infinity, loopDuration - e.timestamp) }));
+      const events = quantize.onRecord ? quantizeEvents(trimmed, loopDuration, transport.bpm, quantize) : trimmed;
       setLoops(prev => [...prev, { 
         id: newId, 
         name: `LOOP ${loops.length + 1}`, 
-        events: [...recordedEvents], 
+        events, 
         duration: loopDuration,
         mode: 'repeat'
       }]);
     }
   };
 
+  // Loops joining a running set wait for the next bar line, or the next pass of the first
+  // playing loop, measured from when that loop started. Recording and the click always use the
+  // bar grid; with nothing playing, everything starts straight away.
+  const nextSyncPoint = (sync: LoopSync = loopSync): number => {
+    const earliest = scheduler.now() + 0.05;
+    const masterId = playingLoopIds.find(id => loopStarts.current.has(id));
+    const master = loops.find(l => l.id === masterId);
+    if (!masterId || !master) return earliest;
+
+    const origin = loopStarts.current.get(masterId)!;
+    const step = (sync === 'loop' ? loopPlaybackCycle(master).duration : barDuration(transport)) / 1000;
+    if (step <= 0) return earliest;
+    return origin + Math.ceil((earliest - origin) / step) * step;
+  };
+
   const playLoop = (loopId: string) => {
-    if (playingLoopId === loopId) {
-      stopPlayback();
+    if (playingLoopIds.includes(loopId)) {
+      stopLoop(loopId);
       return;
     }
-    stopPlayback();
-    setPlayingLoopId(loopId);
+    const start = nextSyncPoint();
+    loopStarts.current.set(loopId, start);
+    setPlayingLoopIds(prev => [...prev, loopId]);
 
-    const executePlayback = (direction: 'forward' | 'backward' = 'forward') => {
-      // Find latest loop data to handle mode changes mid-playback
-      const currentLoop = loopsRef.current.find(l => l.id === loopId);
-      if (!currentLoop) {
-        setPlayingLoopId(null);
-        return;
-      }
-
-      const loopStartTime = Date.now();
-      const duration = currentLoop.duration;
-      
-      const progInt = window.setInterval(() => {
-        const elapsed = Date.now() - loopStartTime;
-        setLoopProgress(prev => ({ ...prev, [loopId]: (elapsed / duration) * 100 }));
-      }, 16);
-      progressIntervals.current[loopId] = progInt;
-
-      const eventsToPlay = direction === 'forward' 
-        ? currentLoop.events 
-        : currentLoop.events.map(e => ({...e, timestamp: duration - e.timestamp}));
-
-      eventsToPlay.forEach((event) => {
-        const playTimer = window.setTimeout(() => onPlayEvent(event.note, event.frequency), event.timestamp);
-        const stopTimer = window.setTimeout(() => onStopEvent(event.note), event.timestamp + 300);
-        playbackTimers.current.push(playTimer, stopTimer);
-      });
+    let direction: PassDirection = 'forward';
+    // Resolved once per pass; null follows the live patch note by note
+    let patch: SynthSettings | null = null;
+    let gain = 1;
+    scheduledLoopIds.current.add(loopId);
+    scheduler.add(loopId, {
+      getCycle: (index) => {
+        // Find latest loop data to handle mode changes mid-playback
+        const currentLoop = loopsRef.current.find(l => l.id === loopId);
+        if (!currentLoop) return null;
 
-      const endTimer = window.setTimeout(() => {
-        window.clearInterval(progInt);
-        
-        // Re-fetch latest mode at end of cycle
-        const latestLoop = loopsRef.current.find(l => l.id === loopId);
-        if (!latestLoop) {
-          stopPlayback();
-          return;
+        if (index > 0) {
+          if (currentLoop.mode === 'oneshot') return null;
+          direction = currentLoop.mode === 'pingpong' && direction === 'forward' ? 'backward' : 'forward';
         }
 
-        if (latestLoop.mode === 'oneshot') {
-          setPlayingLoopId(null);
-          setLoopProgress(prev => ({ ...prev, [loopId]: 0 }));
-        } else if (latestLoop.mode === 'pingpong') {
-          executePlayback(direction === 'forward' ? 'backward' : 'forward');
-        } else {
-          executePlayback('forward');
-        }
-      }, duration);
-      playbackTimers.current.push(endTimer);
-    };
+        passDirections.current.set(`${loopId}:${index}`, direction);
+        passDirections.current.delete(`${loopId}:${index - 2}`);
 
-    executePlayback('forward');
+        patch = resolveLoopPatch(currentLoop, presetsRef.current);
+        gain = currentLoop.gain ?? 1;
+        const { events: forward, duration } = loopPlaybackCycle(currentLoop);
+        const events = direction === 'forward' ? forward : reverseCycle(forward, duration);
+        return { events, duration };
+      },
+      onNoteOn: (event, voiceId, time) => audioEngine.playNote(event.frequency, voiceId, patch ?? settingsRef.current, { time, velocity: event.velocity, gain, snapshot: patch !== null }),
+      onNoteOff: (_event, voiceId, time) => audioEngine.stopNote(voiceId, patch ?? settingsRef.current, time),
+      onEnd: () => {
+        scheduledLoopIds.current.delete(loopId);
+        loopStarts.current.delete(loopId);
+        setPlayingLoopIds(prev => prev.filter(id => id !== loopId));
+        setLoopProgress(prev => ({ ...prev, [loopId]: 0 }));
+      },
+    }, start);
+  };
+
+  const toggleMetronome = () => {
+    if (metronomeEnabled) metronome.stop();
+    else metronome.start(nextSyncPoint('bar'));
+    setMetronomeEnabled(!metronomeEnabled);
+  };
+
+  const commitBpm = () => {
+    const bpm = parseInt(bpmDraft);
+    if (isNaN(bpm)) {
+      setBpmDraft(String(transport.bpm));
+      return;
+    }
+    onTransportChange({ ...transport, bpm: Math.min(MAX_BPM, Math.max(MIN_BPM, bpm)) });
+  };
+
+  // Renders through the current patch offline and hands the result to the browser as a download
+  const exportWav = async (targets: RecordedLoop[], fileName: string, renderId: string) => {
+    if (targets.length === 0 || renderingId) return;
+    setRenderingId(renderId);
+    setFileError(null);
+    try {
+      const buffer = await renderLoops(targets, settingsRef.current, presetsRef.current);
+      downloadBlob(encodeWav(buffer, wavBitDepth), `${toFileName(fileName)}.wav`);
+    } catch (e) {
+      console.error(e);
+      setFileError(t.renderFailed);
+    } finally {
+      setRenderingId(null);
+    }
+  };
+
+  const commitLoopEvents = (id: string, events: NoteEvent[]) => {
+    pushToHistory(loops);
+    setLoops(prev => prev.map(l => l.id === id ? { ...l, events } : l));
+  };
+
+  const updateLoop = (id: string, changes: Partial<RecordedLoop>, recordHistory = true) => {
+    if (recordHistory) pushToHistory(loops);
+    setLoops(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+  };
+
+  // Choosing a sound: '' follows the live patch, 'snapshot' captures it now, anything else is a preset id
+  const setLoopSound = (id: string, source: string) => {
+    if (source === '') updateLoop(id, { presetId: undefined, snapshot: undefined });
+    else if (source === 'snapshot') updateLoop(id, { presetId: undefined, snapshot: { ...settingsRef.current } });
+    else updateLoop(id, { presetId: source, snapshot: undefined });
+  };
+
+  const quantizeLoop = (id: string) => {
+    pushToHistory(loops);
+    setLoops(prev => prev.map(l => l.id === id ? { ...l, events: quantizeEvents(l.events, l.duration, transport.bpm, quantize) } : l));
   };
 
   const cycleMode = (id: string) => {
@@ -219,7 +636,7 @@ const Looper: React.FC<LooperProps> = ({
 
   const deleteLoop = (id: string) => {
     pushToHistory(loops);
-    if(playingLoopId === id) stopPlayback();
+    if (playingLoopIds.includes(id)) stopLoop(id);
     setLoops(prev => prev.filter(l => l.id !== id));
   };
 
@@ -229,6 +646,13 @@ const Looper: React.FC<LooperProps> = ({
     setLoops([]);
   };
 
+  const editorLoop = loops.find(l => l.id === editorLoopId);
+  const isEditorOpen = editorLoop !== undefined;
+
+  useEffect(() => {
+    onEditorOpenChange(isEditorOpen);
+  }, [isEditorOpen, onEditorOpenChange]);
+
   const getModeIcon = (mode: LoopMode) => {
     switch(mode) {
       case 'repeat': return <Repeat size={12} />;
@@ -240,9 +664,9 @@ const Looper: React.FC<LooperProps> = ({
 
   const getModeLabel = (mode: LoopMode) => {
     switch(mode) {
-      case 'repeat': return 'Loop';
-      case 'oneshot': return 'One-Shot';
-      case 'pingpong': return 'Ping-Pong';
+      case 'repeat': return t.modeLoop;
+      case 'oneshot': return t.modeOneShot;
+      case 'pingpong': return t.modePingPong;
       default: return '';
     }
   };
@@ -261,36 +685,54 @@ const Looper: React.FC<LooperProps> = ({
       {/* COMPACT VIEW */}
       <div className="flex items-center gap-2 h-full bg-black/40 px-2 rounded-lg border border-zinc-800/50">
         <div className="flex items-center gap-1.5 shrink-0 border-r border-zinc-800 pr-2">
-          {!isRecording ? (
+          {!isRecording && !isCountingIn && !overdubTargetId ? (
             <button 
               onClick={startRecording} 
               className="w-7 h-7 flex items-center justify-center bg-red-600 rounded-full active:scale-90 transition-transform shadow-lg shadow-red-900/20 group"
-              title="Start Recording"
+              title={t.startRecording}
             >
               <Circle size={12} fill="white" className="group-hover:scale-110 transition-transform" />
             </button>
           ) : (
             <button 
               onClick={stopRecording} 
-              className="w-7 h-7 flex items-center justify-center bg-white text-black rounded-full animate-pulse shadow-lg"
-              title="Stop Recording"
+              className={`w-7 h-7 flex items-center justify-center rounded-full animate-pulse shadow-lg ${isCountingIn ? 'bg-amber-500 text-black' : overdubTargetId ? 'bg-cyan-500 text-black' : 'bg-white text-black'}`}
+              title={isCountingIn ? t.cancelCountIn : overdubTargetId ? t.stopOverdub : t.stopRecording}
             >
               <Square size={10} fill="black" />
             </button>
           )}
+          <button 
+            onClick={() => setIsTakeArmed(!isTakeArmed)}
+            disabled={isTakeRecording}
+            className={`w-7 h-7 flex items-center justify-center rounded-full border transition-all ${isTakeArmed ? 'border-amber-500 text-amber-500 bg-amber-500/10 animate-pulse' : 'border-zinc-800 text-zinc-600 hover:text-zinc-400'} ${isTakeRecording ? 'opacity-30 cursor-not-allowed' : ''}`}
+            title={t.armTake}
+          >
+            <Radio size={12} />
+          </button>
+          <button 
+            onClick={toggleTakeRecording}
+            className={`w-7 h-7 flex items-center justify-center rounded-full transition-all active:scale-90 ${isTakeRecording ? 'bg-amber-500 text-black animate-pulse' : 'bg-zinc-900 border border-zinc-800 text-amber-500 hover:bg-zinc-800'}`}
+            title={isTakeRecording ? t.stopTake : t.recordTake}
+          >
+            {isTakeRecording ? <Square size={10} fill="black" /> : <Disc size={12} />}
+          </button>
         </div>
 
         <div className="flex-1 min-w-0 flex items-center gap-3">
-          {playingLoopId ? (
+          {playingLoopIds.length > 0 ? (
             <div className="flex items-center gap-2 animate-in fade-in slide-in-from-left-2 duration-300">
               <Play size={10} className="text-cyan-500 fill-cyan-500 animate-pulse" />
               <span className="text-[9px] font-black text-cyan-400 uppercase tracking-widest truncate max-w-[80px]">
-                {loops.find(l => l.id === playingLoopId)?.name}
+                {loops.find(l => l.id === playingLoopIds[0])?.name}
               </span>
+              {playingLoopIds.length > 1 && (
+                <span className="text-[8px] font-black text-cyan-700">+{playingLoopIds.length - 1}</span>
+              )}
             </div>
           ) : (
             <span className="text-[9px] font-bold text-zinc-600 uppercase tracking-widest truncate opacity-50">
-              {loops.length > 0 ? `${loops.length} Loops` : 'No Loops'}
+              {loops.length > 0 ? `${loops.length} ${t.loops}` : t.noLoopsShort}
             </span>
           )}
         </div>
@@ -308,14 +750,14 @@ const Looper: React.FC<LooperProps> = ({
         <div className="absolute top-[calc(100%+8px)] left-0 w-80 sm:w-96 bg-zinc-950 border border-zinc-800 rounded-xl shadow-2xl z-[100] animate-in fade-in slide-in-from-top-4 overflow-hidden flex flex-col max-h-[70vh]">
           <div className="p-3 bg-zinc-900/50 border-b border-zinc-800 flex items-center justify-between">
             <h3 className="text-[10px] font-black uppercase tracking-widest text-zinc-400 flex items-center gap-2">
-              <Music size={14} className="text-cyan-500" /> Loop Management
+              <Music size={14} className="text-cyan-500" /> {t.loopManagement}
             </h3>
             <div className="flex items-center gap-1">
                <button 
                 onClick={performUndo}
                 disabled={undoStack.length === 0}
                 className={`p-1.5 rounded transition-all ${undoStack.length > 0 ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-800 cursor-not-allowed'}`}
-                title="Undo (Ctrl+Z)"
+                title={`${t.undo} (Ctrl+Z)`}
                >
                  <Undo2 size={12} />
                </button>
@@ -323,7 +765,7 @@ const Looper: React.FC<LooperProps> = ({
                 onClick={performRedo}
                 disabled={redoStack.length === 0}
                 className={`p-1.5 rounded transition-all ${redoStack.length > 0 ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-800 cursor-not-allowed'}`}
-                title="Redo (Ctrl+Y)"
+                title={`${t.redo} (Ctrl+Y)`}
                >
                  <Redo2 size={12} />
                </button>
@@ -331,12 +773,62 @@ const Looper: React.FC<LooperProps> = ({
                <div className="w-px h-4 bg-zinc-800 mx-1" />
 
                <button 
-                onClick={() => setMetronomeEnabled(!metronomeEnabled)}
+                onClick={toggleMetronome}
                 className={`p-1.5 rounded flex items-center gap-1.5 transition-all ${metronomeEnabled ? 'text-amber-500 bg-amber-500/10' : 'text-zinc-600 hover:text-zinc-400'}`}
                >
                  <Clock size={12} />
-                 <span className="text-[8px] font-black uppercase">Click</span>
+                 <span className="text-[8px] font-black uppercase">{t.click}</span>
+               </button>
+               <button 
+                onClick={() => setOverdubEnabled(!overdubEnabled)}
+                className={`p-1.5 rounded flex items-center gap-1.5 transition-all ${overdubEnabled ? 'text-cyan-400 bg-cyan-500/10' : 'text-zinc-600 hover:text-zinc-400'}`}
+                title={t.overdubHint}
+               >
+                 <Layers size={12} />
+                 <span className="text-[8px] font-black uppercase">{t.dub}</span>
+               </button>
+               <button 
+                onClick={() => setLoopSync(loopSync === 'bar' ? 'loop' : 'bar')}
+                className="p-1.5 rounded flex items-center gap-1.5 text-zinc-600 hover:text-zinc-400 transition-all"
+                title={t.loopSyncHint}
+               >
+                 <Lock size={12} />
+                 <span className="text-[8px] font-black uppercase">{loopSync === 'bar' ? t.syncBar : t.syncLoop}</span>
                </button>
+               <button 
+                onClick={() => setWavBitDepth(wavBitDepth === 16 ? 24 : 16)}
+                className="p-1.5 rounded text-zinc-600 hover:text-zinc-400 transition-all"
+                title={t.wavBitDepth}
+               >
+                 <span className="text-[8px] font-black uppercase">{wavBitDepth}bit</span>
+               </button>
+               <button 
+                onClick={() => midiInputRef.current?.click()}
+                className="p-1.5 rounded text-zinc-600 hover:text-zinc-400 transition-all"
+                title={t.importMidi}
+               >
+                 <FileUp size={12} />
+               </button>
+               <input ref={midiInputRef} type="file" accept=".mid,.midi,audio/midi" onChange={importMidi} className="hidden" />
+               {loops.length > 0 && (
+                 <button 
+                  onClick={() => exportMidi(loops, 'all-loops')}
+                  className="p-1.5 rounded text-zinc-600 hover:text-zinc-400 transition-all"
+                  title={t.exportAllMidi}
+                 >
+                   <FileMusic size={12} />
+                 </button>
+               )}
+               {loops.length > 0 && (
+                 <button 
+                  onClick={() => exportWav(loops, 'all-loops', 'all')}
+                  disabled={renderingId !== null}
+                  className={`p-1.5 rounded transition-all ${renderingId === 'all' ? 'text-cyan-400' : 'text-zinc-600 hover:text-zinc-400'}`}
+                  title={t.exportAllWav}
+                 >
+                   {renderingId === 'all' ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                 </button>
+               )}
                {loops.length > 0 && (
                  <button onClick={clearAllLoops} className="text-red-500 hover:text-red-400 p-1 ml-1">
                    <Trash2 size={12} />
@@ -345,17 +837,97 @@ const Looper: React.FC<LooperProps> = ({
             </div>
           </div>
 
+          {fileError && (
+            <div className="px-3 py-2 border-b border-zinc-800 bg-red-950/20 flex items-center gap-2">
+              <AlertCircle size={10} className="text-red-500 shrink-0" />
+              <span className="flex-1 text-[8px] font-black uppercase text-red-400 tracking-widest">{fileError}</span>
+              <button onClick={() => setFileError(null)} className="text-red-500/60 hover:text-red-400 p-0.5">
+                <X size={10} />
+              </button>
+            </div>
+          )}
+
+          <div className="px-3 py-2 border-b border-zinc-800 flex items-center gap-3">
+            <label className="flex items-center gap-1.5">
+              <span className="text-[8px] font-black uppercase text-zinc-600">BPM</span>
+              <input 
+                value={bpmDraft}
+                onChange={(e) => setBpmDraft(e.target.value.replace(/[^0-9]/g, ''))}
+                onBlur={commitBpm}
+                onKeyDown={(e) => e.key === 'Enter' && commitBpm()}
+                className="w-10 bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[10px] font-black text-cyan-400 mono focus:outline-none focus:border-cyan-500"
+              />
+            </label>
+            <select 
+              value={`${transport.beatsPerBar}/${transport.beatUnit}`}
+              onChange={(e) => {
+                const [beatsPerBar, beatUnit] = e.target.value.split('/').map(Number);
+                onTransportChange({ ...transport, beatsPerBar, beatUnit });
+              }}
+              className="bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[10px] font-black text-zinc-300 mono focus:outline-none"
+              title={t.timeSignature}
+            >
+              {TIME_SIGNATURES.map(([beats, unit]) => <option key={`${beats}/${unit}`} value={`${beats}/${unit}`}>{beats}/{unit}</option>)}
+            </select>
+            <label className="flex items-center gap-1.5">
+              <span className="text-[8px] font-black uppercase text-zinc-600">{t.countIn}</span>
+              <select 
+                value={transport.countInBars}
+                onChange={(e) => onTransportChange({ ...transport, countInBars: Number(e.target.value) })}
+                className="bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[10px] font-black text-zinc-300 mono focus:outline-none"
+              >
+                {COUNT_IN_BARS.map(bars => <option key={bars} value={bars}>{bars === 0 ? t.off : `${bars} ${bars > 1 ? t.bars : t.bar}`}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="px-3 py-2 border-b border-zinc-800 flex items-center gap-2">
+            <Magnet size={10} className="text-zinc-600" />
+            <select 
+              value={quantize.division}
+              onChange={(e) => setQuantize(q => ({ ...q, division: Number(e.target.value) }))}
+              className="bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[10px] font-black text-zinc-300 mono focus:outline-none"
+              title={t.quantizeGrid}
+            >
+              {QUANTIZE_DIVISIONS.map(d => <option key={d.beats} value={d.beats}>{d.label}</option>)}
+            </select>
+            <button 
+              onClick={() => setQuantize(q => ({ ...q, triplet: !q.triplet }))}
+              className={`px-1.5 py-0.5 rounded border text-[8px] font-black transition-all ${quantize.triplet ? 'border-cyan-700 text-cyan-400 bg-cyan-950/30' : 'border-zinc-800 text-zinc-600'}`}
+              title={t.tripletGrid}
+            >
+              3
+            </button>
+            <label className="flex items-center gap-1" title={t.quantizeStrength}>
+              <span className="text-[8px] font-black uppercase text-zinc-600">{t.strengthShort}</span>
+              <input type="range" min="0" max="1" step="0.05" value={quantize.strength} onChange={(e) => setQuantize(q => ({ ...q, strength: parseFloat(e.target.value) }))} className="w-12 accent-cyan-500" />
+              <span className="w-6 text-[8px] font-black text-zinc-500 mono">{Math.round(quantize.strength * 100)}</span>
+            </label>
+            <label className="flex items-center gap-1" title={t.swing}>
+              <span className="text-[8px] font-black uppercase text-zinc-600">{t.swingShort}</span>
+              <input type="range" min="0" max="1" step="0.05" value={quantize.swing} onChange={(e) => setQuantize(q => ({ ...q, swing: parseFloat(e.target.value) }))} className="w-12 accent-cyan-500" />
+              <span className="w-6 text-[8px] font-black text-zinc-500 mono">{Math.round(quantize.swing * 100)}</span>
+            </label>
+            <button 
+              onClick={() => setQuantize(q => ({ ...q, onRecord: !q.onRecord }))}
+              className={`ml-auto px-1.5 py-0.5 rounded border text-[8px] font-black uppercase transition-all ${quantize.onRecord ? 'border-red-700 text-red-400 bg-red-950/30' : 'border-zinc-800 text-zinc-600'}`}
+              title={t.quantizeOnRecord}
+            >
+              {t.rec}
+            </button>
+          </div>
+
           <div className="flex-1 overflow-y-auto p-2 space-y-2 no-scrollbar">
             {loops.length === 0 ? (
               <div className="py-12 flex flex-col items-center justify-center text-zinc-700 opacity-50">
                 <Music size={32} className="mb-2 stroke-[1px]" />
                 <p className="text-[10px] font-black uppercase tracking-widest text-center px-8">
-                  No recording found.
+                  {t.noRecording}
                 </p>
               </div>
             ) : (
               loops.map((loop) => {
-                const isActive = playingLoopId === loop.id;
+                const isActive = playingLoopIds.includes(loop.id);
                 const progress = loopProgress[loop.id] || 0;
                 const isEditing = editingLoopId === loop.id;
                 const feedback = modeFeedback[loop.id];
@@ -391,6 +963,9 @@ const Looper: React.FC<LooperProps> = ({
                       ) : (
                         <div className="flex items-center gap-2">
                           <span className="text-[10px] font-black text-zinc-200 uppercase">{loop.name}</span>
+                          {overdubTargetId === loop.id && (
+                            <span className="text-[7px] font-black uppercase text-black bg-cyan-500 px-1 rounded animate-pulse">{t.dub}</span>
+                          )}
                           <button onClick={() => { setEditingLoopId(loop.id); setEditName(loop.name); }} className="opacity-0 group-hover:opacity-100 text-zinc-600 hover:text-cyan-400">
                             <Edit3 size={10} />
                           </button>
@@ -411,14 +986,25 @@ const Looper: React.FC<LooperProps> = ({
                         <button 
                           onClick={() => cycleMode(loop.id)}
                           className={`flex items-center gap-2 px-2.5 py-1.5 rounded-lg border transition-all active:scale-95 min-w-[90px] ${getModeColor(loop.mode)}`}
-                          title="Cycle Playback Mode"
+                          title={t.cycleMode}
                         >
                           <div className="scale-110">{getModeIcon(loop.mode)}</div>
                           <span className="text-[8px] font-black uppercase tracking-tighter">{getModeLabel(loop.mode)}</span>
                         </button>
-                        <button className="p-1.5 rounded-lg border bg-zinc-950 border-zinc-800 text-zinc-700 hover:text-zinc-500 opacity-50 cursor-not-allowed">
+                        <button 
+                          onClick={() => setEditorLoopId(loop.id)}
+                          className="p-1.5 rounded-lg border bg-zinc-950 border-zinc-800 text-zinc-500 hover:text-cyan-400 transition-all"
+                          title={t.editNotes}
+                        >
                           <Settings2 size={12} />
                         </button>
+                        <button 
+                          onClick={() => setSoundPanelId(soundPanelId === loop.id ? null : loop.id)}
+                          className={`p-1.5 rounded-lg border bg-zinc-950 transition-all ${soundPanelId === loop.id || loop.presetId || loop.snapshot ? 'border-cyan-900 text-cyan-400' : 'border-zinc-800 text-zinc-500 hover:text-cyan-400'}`}
+                          title={t.loopSound}
+                        >
+                          <SlidersHorizontal size={12} />
+                        </button>
                       </div>
 
                       <div className="flex items-center gap-2">
@@ -427,7 +1013,29 @@ const Looper: React.FC<LooperProps> = ({
                           className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${isActive ? 'bg-zinc-700 text-zinc-200' : 'bg-cyan-600 hover:bg-cyan-500 text-black shadow-lg shadow-cyan-900/10'}`}
                         >
                           {isActive ? <Square size={10} fill="currentColor" /> : <Play size={10} fill="currentColor" />}
-                          {isActive ? 'Stop' : 'Play'}
+                          {isActive ? t.stop : t.play}
+                        </button>
+                        <button 
+                          onClick={() => quantizeLoop(loop.id)}
+                          className="p-1.5 bg-zinc-950 border border-zinc-800 rounded-lg text-zinc-700 hover:text-cyan-400 transition-all"
+                          title={t.quantize}
+                        >
+                          <Magnet size={12} />
+                        </button>
+                        <button 
+                          onClick={() => exportMidi([loop], loop.name)}
+                          className="p-1.5 bg-zinc-950 border border-zinc-800 rounded-lg text-zinc-700 hover:text-cyan-400 transition-all"
+                          title={t.exportMidi}
+                        >
+                          <FileMusic size={12} />
+                        </button>
+                        <button 
+                          onClick={() => exportWav([loop], loop.name, loop.id)}
+                          disabled={renderingId !== null}
+                          className={`p-1.5 bg-zinc-950 border border-zinc-800 rounded-lg transition-all ${renderingId === loop.id ? 'text-cyan-400' : 'text-zinc-700 hover:text-cyan-400'}`}
+                          title={t.exportWav}
+                        >
+                          {renderingId === loop.id ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
                         </button>
                         <button 
                           onClick={() => deleteLoop(loop.id)}
@@ -437,18 +1045,108 @@ const Looper: React.FC<LooperProps> = ({
                         </button>
                       </div>
                     </div>
+
+                    {soundPanelId === loop.id && (
+                      <div className="mt-3 pt-3 border-t border-zinc-800 grid grid-cols-2 gap-2">
+                        <label className="col-span-2 flex items-center gap-2">
+                          <span className="w-10 text-[8px] font-black uppercase text-zinc-600">{t.sound}</span>
+                          <select 
+                            value={loop.presetId ?? (loop.snapshot ? 'snapshot' : '')}
+                            onChange={(e) => setLoopSound(loop.id, e.target.value)}
+                            className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[9px] font-black text-zinc-300 uppercase focus:outline-none"
+                          >
+                            <option value="">{t.livePatch}</option>
+                            <option value="snapshot">{loop.snapshot ? t.snapshot : t.snapshotCurrent}</option>
+                            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                          </select>
+                          {loop.snapshot && !loop.presetId && (
+                            <button 
+                              onClick={() => setLoopSound(loop.id, 'snapshot')}
+                              className="p-1 text-zinc-600 hover:text-cyan-400"
+                              title={t.recapturePatch}
+                            >
+                              <Camera size={10} />
+                            </button>
+                          )}
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <span className="w-10 text-[8px] font-black uppercase text-zinc-600">{t.transposeShort}</span>
+                          <button onClick={() => updateLoop(loop.id, { transpose: (loop.transpose ?? 0) - 1 })} className="px-1.5 rounded bg-zinc-950 border border-zinc-800 text-[9px] font-black text-zinc-400">-</button>
+                          <span className="w-6 text-center text-[9px] font-black text-cyan-400 mono">{(loop.transpose ?? 0) > 0 ? '+' : ''}{loop.transpose ?? 0}</span>
+                          <button onClick={() => updateLoop(loop.id, { transpose: (loop.transpose ?? 0) + 1 })} className="px-1.5 rounded bg-zinc-950 border border-zinc-800 text-[9px] font-black text-zinc-400">+</button>
+                        </div>
+                        <label className="flex items-center gap-2">
+                          <span className="w-10 text-[8px] font-black uppercase text-zinc-600">{t.rate}</span>
+                          <select 
+                            value={loop.rate ?? 1}
+                            onChange={(e) => updateLoop(loop.id, { rate: Number(e.target.value) })}
+                            className="bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[9px] font-black text-zinc-300 mono focus:outline-none"
+                          >
+                            {LOOP_RATES.map(rate => <option key={rate} value={rate}>{rate}x</option>)}
+                          </select>
+                        </label>
+                        <label className="col-span-2 flex items-center gap-2">
+                          <span className="w-10 text-[8px] font-black uppercase text-zinc-600">{t.gain}</span>
+                          <input 
+                            type="range" min="0" max="1" step="0.01"
+                            value={loop.gain ?? 1}
+                            onPointerDown={() => pushToHistory(loops)}
+                            onChange={(e) => updateLoop(loop.id, { gain: parseFloat(e.target.value) }, false)}
+                            className="flex-1 accent-cyan-500"
+                          />
+                          <span className="w-8 text-right text-[9px] font-black text-cyan-400 mono">{Math.round((loop.gain ?? 1) * 100)}%</span>
+                        </label>
+                      </div>
+                    )}
                   </div>
                 );
               })
             )}
           </div>
 
+          {takes.length > 0 && (
+            <div className="border-t border-zinc-800 p-2 space-y-1.5 max-h-40 overflow-y-auto no-scrollbar">
+              <h4 className="text-[8px] font-black uppercase tracking-widest text-zinc-600 px-1 flex items-center gap-1.5">
+                <Disc size={10} className="text-amber-500" /> {t.outputTakes}
+              </h4>
+              {takes.map(take => (
+                <div key={take.id} className="flex items-center justify-between px-2 py-1.5 rounded-lg bg-zinc-900/40 border border-zinc-800">
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => playTake(take)} className="text-amber-500 hover:text-amber-400">
+                      {playingTakeId === take.id ? <Pause size={10} fill="currentColor" /> : <Play size={10} fill="currentColor" />}
+                    </button>
+                    <span className="text-[9px] font-black text-zinc-300 uppercase">{take.name}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-[9px] mono text-zinc-600 font-bold">{(take.duration / 1000).toFixed(2)}s</span>
+                    <button onClick={() => downloadTake(take)} className="text-zinc-600 hover:text-cyan-400" title={t.downloadTake}>
+                      <Download size={10} />
+                    </button>
+                    <button onClick={() => deleteTake(take.id)} className="text-zinc-700 hover:text-red-500">
+                      <Trash2 size={10} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="p-3 border-t border-zinc-800 bg-zinc-950 flex items-center justify-center gap-2">
             <AlertCircle size={10} className="text-zinc-700" />
-            <span className="text-[8px] font-black uppercase text-zinc-700 tracking-widest">Storage: Local Browser Persistence</span>
+            <span className="text-[8px] font-black uppercase text-zinc-700 tracking-widest">{t.loopStorageNotice}</span>
           </div>
         </div>
       )}
+
+      {editorLoop && (
+        <PianoRoll 
+          loop={editorLoop}
+          transport={transport}
+          onCommit={(events) => commitLoopEvents(editorLoop.id, events)}
+          onClose={() => setEditorLoopId(null)}
+          lang={lang}
+        />
+      )}
     </div>
   );
 };
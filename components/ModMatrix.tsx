@@ -0,0 +1,77 @@
+import React from 'react';
+import { SynthSettings, Language, ModSlot, ModSource } from '../types';
+import { TRANSLATIONS, MOD_SOURCES } from '../constants';
+import { MOD_DESTINATIONS } from '../services/modMatrix';
+import { Plus, Trash2, Share2 } from 'lucide-react';
+
+interface ModMatrixProps {
+  settings: SynthSettings;
+  setSettings: React.Dispatch<React.SetStateAction<SynthSettings>>;
+  lang: Language;
+}
+
+const selectClass = "bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-[9px] font-black text-zinc-300 uppercase focus:outline-none focus:border-cyan-700";
+
+const ModMatrix: React.FC<ModMatrixProps> = ({ settings, setSettings, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const slots = settings.modMatrix;
+
+  const updateSlot = (id: string, changes: Partial<ModSlot>) => {
+    setSettings(prev => ({ ...prev, modMatrix: prev.modMatrix.map(s => s.id === id ? { ...s, ...changes } : s) }));
+  };
+
+  const addSlot = () => {
+    const slot: ModSlot = { id: Math.random().toString(36).substr(2, 9), source: 'lfo1', destination: 'filter.frequency', amount: 0.25 };
+    setSettings(prev => ({ ...prev, modMatrix: [...prev.modMatrix, slot] }));
+  };
+
+  const removeSlot = (id: string) => {
+    setSettings(prev => ({ ...prev, modMatrix: prev.modMatrix.filter(s => s.id !== id) }));
+  };
+
+  return (
+    <section className="bg-zinc-900/20 p-4 rounded-2xl border border-zinc-800/50 lg:col-span-2">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-[10px] font-black text-zinc-400 uppercase tracking-widest flex items-center gap-2">
+          <Share2 size={14} className="text-cyan-500" /> {t.modMatrix}
+        </h3>
+        <button
+          onClick={addSlot}
+          className="flex items-center gap-1.5 text-[10px] font-black text-cyan-400 bg-cyan-950/30 border border-cyan-900/50 px-3 py-1.5 rounded-lg active:scale-95 transition-transform"
+        >
+          <Plus size={14} /> {t.addModSlot}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-2 max-h-64 overflow-y-auto pr-2 custom-scrollbar">
+        {slots.length === 0 ? (
+          <div className="py-8 text-center text-[10px] text-zinc-700 font-black uppercase">{t.emptyModMatrix}</div>
+        ) : (
+          slots.map(slot => (
+            <div key={slot.id} className="flex items-center gap-2 p-3 bg-zinc-900 border border-zinc-800/50 rounded-xl">
+              <select value={slot.source} onChange={(e) => updateSlot(slot.id, { source: e.target.value as ModSource })} className={selectClass}>
+                {MOD_SOURCES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+              </select>
+              <span className="text-[9px] text-zinc-600 font-black">→</span>
+              <select value={slot.destination} onChange={(e) => updateSlot(slot.id, { destination: e.target.value })} className={`${selectClass} flex-1 min-w-0`}>
+                {MOD_DESTINATIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <input
+                type="range" min="-1" max="1" step="0.01"
+                value={slot.amount}
+                onChange={(e) => updateSlot(slot.id, { amount: parseFloat(e.target.value) })}
+                className="w-24 accent-cyan-500"
+              />
+              <span className="w-9 text-right text-[9px] font-black text-cyan-500 mono">{Math.round(slot.amount * 100)}%</span>
+              <button onClick={() => removeSlot(slot.id)} className="text-zinc-700 hover:text-red-500 transition-colors p-1">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ModMatrix;
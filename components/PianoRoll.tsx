@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Language, NoteEvent, RecordedLoop, TransportSettings } from '../types';
+import { getNoteLabel, midiNoteToFrequency, frequencyToMidiNote, TRANSLATIONS } from '../constants';
+import { beatDuration } from '../services/metronome';
+import { DEFAULT_GATE_MS } from '../services/scheduler';
+import { X, Magnet, Trash2, Edit3 } from 'lucide-react';
+
+interface PianoRollProps {
+  loop: RecordedLoop;
+  transport: TransportSettings;
+  onCommit: (events: NoteEvent[]) => void;
+  onClose: () => void;
+  lang: Language;
+}
+
+const ROW_HEIGHT = 10;
+const KEY_WIDTH = 36;
+const PX_PER_SECOND = 160;
+const VELOCITY_LANE = 48;
+const RESIZE_HANDLE = 6;
+const MIN_ROWS = 24;
+const ROW_MARGIN = 6;
+const MIN_NOTE_MS = 10;
+const BLACK_KEYS = [1, 3, 6, 8, 10];
+
+type DragMode = 'move' | 'resize' | 'velocity';
+
+interface DragState {
+  mode: DragMode;
+  event: NoteEvent;
+  original: NoteEvent;
+  originX: number;
+  originY: number;
+}
+
+const noteLength = (event: NoteEvent) => event.duration ?? DEFAULT_GATE_MS;
+const toPx = (ms: number) => (ms / 1000) * PX_PER_SECOND;
+const toMs = (px: number) => (px / PX_PER_SECOND) * 1000;
+
+const withPitch = (event: NoteEvent, midi: number): NoteEvent =>
+  ({ ...event, note: getNoteLabel(midi), frequency: midiNoteToFrequency(midi) });
+
+// Edits are drafted locally while dragging and committed once per gesture,
+// so each move, resize, draw or delete is a single step on the loop's undo stack.
+const PianoRoll: React.FC<PianoRollProps> = ({ loop, transport, onCommit, onClose, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const [events, setEvents] = useState<NoteEvent[]>(loop.events);
+  const [selected, setSelected] = useState<NoteEvent | null>(null);
+  const [snap, setSnap] = useState(true);
+  const [drawMode, setDrawMode] = useState(false);
+  const eventsRef = useRef<NoteEvent[]>(loop.events);
+  const drag = useRef<DragState | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  // The last edit handed to the looper, which comes straight back as the loop's events
+  const committed = useRef<NoteEvent[] | null>(null);
+
+  // Undo and redo in the looper replace the loop, so the draft follows it. A loop that is just
+  // our own commit coming back holds the same note objects, so the selection stays valid.
+  useEffect(() => {
+    updateEvents(loop.events);
+    if (loop.events !== committed.current) setSelected(null);
+  }, [loop.events]);
+
+  // Focus moves into the editor so its shortcuts work straight away
+  useEffect(() => {
+    panelRef.current?.focus();
+  }, []);
+
+  const { high, rows } = useMemo(() => {
+    const pitches = loop.events.map(e => frequencyToMidiNote(e.frequency));
+    const low = Math.max(0, (pitches.length ? Math.min(...pitches) : 60) - ROW_MARGIN);
+    const top = Math.min(127, Math.max(low + MIN_ROWS - 1, (pitches.length ? Math.max(...pitches) : 60) + ROW_MARGIN));
+    return { high: top, rows: top - low + 1 };
+  }, [loop.events]);
+
+  const step = beatDuration(transport) / 4;
+  const beat = beatDuration(transport);
+  const width = toPx(loop.duration);
+  const gridHeight = rows * ROW_HEIGHT;
+  const snapMs = (ms: number) => (snap ? Math.round(ms / step) * step : ms);
+  const clampPitch = (midi: number) => Math.max(high - rows + 1, Math.min(high, midi));
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // Kept in a ref as well so pointer-up commits the latest draft even before React re-renders
+  function updateEvents(next: NoteEvent[]) {
+    eventsRef.current = next;
+    setEvents(next);
+  }
+
+  const replaceEvent = (target: NoteEvent, next: NoteEvent) => {
+    updateEvents(eventsRef.current.map(e => e === target ? next : e));
+    if (drag.current) drag.current.event = next;
+    setSelected(next);
+  };
+
+  const commit = (next: NoteEvent[]) => {
+    committed.current = [...next].sort((a, b) => a.timestamp - b.timestamp);
+    onCommit(committed.current);
+  };
+
+  const startDrag = (e: React.PointerEvent, event: NoteEvent, mode: DragMode) => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    drag.current = { mode, event, original: event, originX: e.clientX, originY: e.clientY };
+    setSelected(event);
+  };
+
+  const handleNotePointerDown = (e: React.PointerEvent, event: NoteEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    startDrag(e, event, rect.right - e.clientX <= RESIZE_HANDLE ? 'resize' : 'move');
+  };
+
+  // Clicking empty grid in draw mode adds a note one grid step long; dragging stretches it
+  const handleGridPointerDown = (e: React.PointerEvent) => {
+    if (!drawMode) {
+      setSelected(null);
+      return;
+    }
+    const { x, y } = pointerPosition(e);
+    const timestamp = Math.max(0, Math.min(loop.duration - MIN_NOTE_MS, snap ? Math.floor(toMs(x) / step) * step : toMs(x)));
+    const midi = clampPitch(high - Math.floor(y / ROW_HEIGHT));
+    const created = withPitch({ note: '', frequency: 0, velocity: 0.8, startTime: Date.now(), timestamp, duration: snap ? step : DEFAULT_GATE_MS }, midi);
+    updateEvents([...eventsRef.current, created]);
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    drag.current = { mode: 'resize', event: created, original: created, originX: e.clientX, originY: e.clientY };
+    setSelected(created);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const state = drag.current;
+    if (!state) return;
+    const { original } = state;
+    const dx = toMs(e.clientX - state.originX);
+
+    if (state.mode === 'move') {
+      const timestamp = Math.max(0, Math.min(loop.duration - MIN_NOTE_MS, snapMs(original.timestamp + dx)));
+      const midi = clampPitch(frequencyToMidiNote(original.frequency) - Math.round((e.clientY - state.originY) / ROW_HEIGHT));
+      replaceEvent(state.event, withPitch({ ...original, timestamp }, midi));
+    } else if (state.mode === 'resize') {
+      const end = snapMs(original.timestamp + noteLength(original) + dx);
+      replaceEvent(state.event, { ...original, duration: Math.max(MIN_NOTE_MS, end - original.timestamp) });
+    } else {
+      const velocity = Math.max(0.01, Math.min(1, (original.velocity ?? 1) - (e.clientY - state.originY) / VELOCITY_LANE));
+      replaceEvent(state.event, { ...original, velocity });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const state = drag.current;
+    drag.current = null;
+    // Freshly drawn notes are committed even if the pointer never moved
+    if (state && (state.event !== state.original || !loop.events.includes(state.original))) {
+      commit(eventsRef.current);
+    }
+  };
+
+  const deleteEvent = (target: NoteEvent | null) => {
+    if (!target) return;
+    const next = eventsRef.current.filter(e => e !== target);
+    updateEvents(next);
+    setSelected(null);
+    commit(next);
+  };
+
+  // Shortcuts only apply while focus is inside the editor, so typing elsewhere is left alone
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      deleteEvent(selected);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const beatLines = Array.from({ length: Math.floor(loop.duration / beat) + 1 }, (_, i) => i);
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+      <div
+        ref={panelRef}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        className="bg-zinc-950 border border-zinc-800 w-full max-w-5xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden focus:outline-none"
+      >
+        <div className="p-4 border-b border-zinc-900 flex justify-between items-center bg-zinc-950/50">
+          <h2 className="text-xs font-black uppercase tracking-widest text-zinc-300 flex items-center gap-2">
+            <Edit3 size={16} className="text-cyan-500" /> {loop.name}
+            <span className="text-[9px] mono text-zinc-600">{(loop.duration / 1000).toFixed(2)}s</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setDrawMode(!drawMode)}
+              className={`px-2 py-1 rounded border text-[8px] font-black uppercase transition-all ${drawMode ? 'border-cyan-700 text-cyan-400 bg-cyan-950/30' : 'border-zinc-800 text-zinc-600'}`}
+              title={t.drawNotes}
+            >
+              {t.draw}
+            </button>
+            <button
+              onClick={() => setSnap(!snap)}
+              className={`p-1.5 rounded border transition-all ${snap ? 'border-cyan-700 text-cyan-400 bg-cyan-950/30' : 'border-zinc-800 text-zinc-600'}`}
+              title={t.snapSixteenth}
+            >
+              <Magnet size={12} />
+            </button>
+            <button
+              onClick={() => deleteEvent(selected)}
+              disabled={!selected}
+              className={`p-1.5 rounded border border-zinc-800 transition-all ${selected ? 'text-zinc-400 hover:text-red-500' : 'text-zinc-800 cursor-not-allowed'}`}
+              title={t.deleteNote}
+            >
+              <Trash2 size={12} />
+            </button>
+            <button onClick={onClose} className="text-zinc-500 hover:text-white p-1 ml-2">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-auto custom-scrollbar">
+          <div className="flex" style={{ width: KEY_WIDTH + width }}>
+            <div className="sticky left-0 z-10 bg-zinc-950 border-r border-zinc-800 shrink-0" style={{ width: KEY_WIDTH }}>
+              {Array.from({ length: rows }, (_, i) => {
+                const midi = high - i;
+                const isBlack = BLACK_KEYS.includes(midi % 12);
+                return (
+                  <div
+                    key={midi}
+                    className={`flex items-center justify-end pr-1 text-[6px] font-black mono border-b border-zinc-900 ${isBlack ? 'bg-zinc-900 text-zinc-600' : 'bg-zinc-800/40 text-zinc-400'}`}
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    {midi % 12 === 0 || !isBlack ? getNoteLabel(midi) : ''}
+                  </div>
+                );
+              })}
+              <div className="border-t border-zinc-800 text-[6px] font-black uppercase text-zinc-600 flex items-center justify-center" style={{ height: VELOCITY_LANE }}>VEL</div>
+            </div>
+
+            <div className="relative shrink-0" style={{ width }}>
+              <div
+                ref={gridRef}
+                className={`relative ${drawMode ? 'cursor-crosshair' : ''}`}
+                style={{ height: gridHeight }}
+                onPointerDown={handleGridPointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              >
+                {Array.from({ length: rows }, (_, i) => (
+                  <div
+                    key={i}
+                    className={`absolute left-0 right-0 border-b border-zinc-900/60 ${BLACK_KEYS.includes((high - i) % 12) ? 'bg-zinc-900/40' : ''}`}
+                    style={{ top: i * ROW_HEIGHT, height: ROW_HEIGHT }}
+                  />
+                ))}
+                {beatLines.map(i => (
+                  <div
+                    key={i}
+                    className={`absolute top-0 bottom-0 w-px ${i % transport.beatsPerBar === 0 ? 'bg-zinc-700' : 'bg-zinc-800/60'}`}
+                    style={{ left: toPx(i * beat) }}
+                  />
+                ))}
+                {events.map((event, i) => {
+                  const isSelected = event === selected;
+                  return (
+                    <div
+                      key={i}
+                      onPointerDown={(e) => handleNotePointerDown(e, event)}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      onDoubleClick={() => deleteEvent(event)}
+                      className={`absolute rounded-sm border cursor-grab active:cursor-grabbing ${isSelected ? 'bg-cyan-400 border-white' : 'bg-cyan-600 border-cyan-400/50'}`}
+                      style={{
+                        left: toPx(event.timestamp),
+                        top: (high - frequencyToMidiNote(event.frequency)) * ROW_HEIGHT + 1,
+                        width: Math.max(3, toPx(noteLength(event))),
+                        height: ROW_HEIGHT - 2,
+                        opacity: 0.4 + (event.velocity ?? 1) * 0.6,
+                      }}
+                      title={`${event.note} · ${Math.round((event.velocity ?? 1) * 127)}`}
+                    >
+                      <div className="absolute right-0 top-0 bottom-0 cursor-ew-resize" style={{ width: RESIZE_HANDLE }} />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="relative border-t border-zinc-800 bg-black/40" style={{ height: VELOCITY_LANE }}>
+                {events.map((event, i) => (
+                  <div
+                    key={i}
+                    onPointerDown={(e) => startDrag(e, event, 'velocity')}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    className={`absolute bottom-0 w-1.5 rounded-t-sm cursor-ns-resize ${event === selected ? 'bg-cyan-300' : 'bg-cyan-700'}`}
+                    style={{ left: toPx(event.timestamp), height: Math.max(2, (event.velocity ?? 1) * VELOCITY_LANE) }}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-3 border-t border-zinc-800 flex items-center justify-center gap-4 text-[8px] font-black uppercase text-zinc-700 tracking-widest">
+          <span>{t.dragToMove}</span>
+          <span>{t.edgeToResize}</span>
+          <span>{t.doubleClickToDelete}</span>
+          <span>{t.dragVelocityBars}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PianoRoll;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Language, SequencerPattern, SequencerStep } from '../types';
+import { TRANSLATIONS, getNoteLabel } from '../constants';
+import { sequencer, createPattern, SequencerSource } from '../services/sequencer';
+import { Play, Square, Plus, Copy, Trash2, Link, Eraser, ChevronUp, ChevronDown, X } from 'lucide-react';
+
+// Patterns, chain and selection are owned by the app so playback outlives the panel
+interface SequencerProps {
+  patterns: SequencerPattern[];
+  onPatternsChange: React.Dispatch<React.SetStateAction<SequencerPattern[]>>;
+  chain: string[];
+  onChainChange: React.Dispatch<React.SetStateAction<string[]>>;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  source: SequencerSource;
+  lang: Language;
+}
+
+const GATE_STEPS = [0.25, 0.5, 0.75, 1];
+const VELOCITY_STEPS = [0.4, 0.6, 0.8, 1];
+
+const nextValue = (values: number[], current: number) => {
+  const index = values.findIndex(v => v >= current - 0.001);
+  return values[(index + 1) % values.length];
+};
+
+const Sequencer: React.FC<SequencerProps> = ({
+  patterns, onPatternsChange: setPatterns, chain, onChainChange: setChain, selectedId, onSelect: setSelectedId, source, lang
+}) => {
+  // Reopening the panel picks up a sequence that kept playing while it was closed
+  const [isPlaying, setIsPlaying] = useState(() => sequencer.isPlaying());
+  const [playhead, setPlayhead] = useState<{ patternId: string; step: number } | null>(null);
+
+  const t = TRANSLATIONS[lang];
+  const patternsRef = useRef(patterns);
+
+  useEffect(() => { patternsRef.current = patterns; }, [patterns]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = window.setInterval(() => {
+      if (!sequencer.isPlaying()) {
+        setIsPlaying(false);
+        setPlayhead(null);
+        return;
+      }
+      setPlayhead(sequencer.getPosition(patternsRef.current));
+    }, 30);
+    return () => window.clearInterval(interval);
+  }, [isPlaying]);
+
+  const pattern = patterns.find(p => p.id === selectedId) ?? patterns[0];
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      sequencer.stop();
+      setIsPlaying(false);
+      setPlayhead(null);
+      return;
+    }
+    sequencer.start(source);
+    setIsPlaying(true);
+  };
+
+  const updatePattern = (changes: Partial<SequencerPattern>) => {
+    setPatterns(prev => prev.map(p => p.id === pattern.id ? { ...p, ...changes } : p));
+  };
+
+  const updateStep = (index: number, changes: Partial<SequencerStep>) => {
+    updatePattern({ steps: pattern.steps.map((s, i) => i === index ? { ...s, ...changes } : s) });
+  };
+
+  const addPattern = () => {
+    const created = createPattern(String.fromCharCode(65 + (patterns.length % 26)));
+    setPatterns(prev => [...prev, created]);
+    setSelectedId(created.id);
+  };
+
+  const duplicatePattern = () => {
+    const copy = { ...createPattern(`${pattern.name}'`, pattern.length), steps: pattern.steps.map(s => ({ ...s })) };
+    setPatterns(prev => [...prev, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const deletePattern = () => {
+    if (patterns.length <= 1) return;
+    const remaining = patterns.filter(p => p.id !== pattern.id);
+    setPatterns(remaining);
+    setChain(prev => prev.filter(id => id !== pattern.id));
+    setSelectedId(remaining[0].id);
+  };
+
+  const clearPattern = () => {
+    updatePattern({ steps: pattern.steps.map(s => ({ ...s, active: false, slide: false, accent: false })) });
+  };
+
+  const steps = pattern.steps.slice(0, pattern.length);
+  const activeStep = playhead && playhead.patternId === pattern.id ? playhead.step : null;
+
+  return (
+    <div className="shrink-0 bg-zinc-950 border-b border-zinc-800/50 px-4 py-2 z-20">
+      <div className="flex items-center gap-2 mb-2 flex-wrap">
+        <h4 className="text-[8px] font-black uppercase tracking-widest text-zinc-500 mr-2">{t.sequencer}</h4>
+        <button
+          onClick={togglePlayback}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${isPlaying ? 'bg-zinc-700 text-zinc-200' : 'bg-cyan-600 hover:bg-cyan-500 text-black'}`}
+        >
+          {isPlaying ? <Square size={10} fill="currentColor" /> : <Play size={10} fill="currentColor" />}
+          {isPlaying ? t.stop : t.play}
+        </button>
+
+        <div className="w-px h-4 bg-zinc-800 mx-1" />
+
+        {patterns.map(p => (
+          <button
+            key={p.id}
+            onClick={() => setSelectedId(p.id)}
+            className={`min-w-[24px] px-1.5 py-1 rounded text-[9px] font-black uppercase border transition-all ${p.id === pattern.id ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'} ${playhead?.patternId === p.id ? 'ring-1 ring-cyan-500/50' : ''}`}
+          >
+            {p.name}
+          </button>
+        ))}
+        <button onClick={addPattern} className="p-1 text-zinc-600 hover:text-cyan-400" title={t.newPattern}><Plus size={12} /></button>
+        <button onClick={duplicatePattern} className="p-1 text-zinc-600 hover:text-cyan-400" title={t.duplicatePattern}><Copy size={12} /></button>
+        <button onClick={clearPattern} className="p-1 text-zinc-600 hover:text-amber-400" title={t.clearPattern}><Eraser size={12} /></button>
+        <button onClick={deletePattern} disabled={patterns.length <= 1} className="p-1 text-zinc-600 hover:text-red-500 disabled:opacity-30" title={t.deletePattern}><Trash2 size={12} /></button>
+        <button
+          onClick={() => updatePattern({ length: pattern.length === 16 ? 32 : 16 })}
+          className="px-1.5 py-0.5 rounded border border-zinc-800 text-[8px] font-black text-zinc-400 mono"
+          title={t.patternLength}
+        >
+          {pattern.length}
+        </button>
+
+        <div className="w-px h-4 bg-zinc-800 mx-1" />
+
+        <button onClick={() => setChain(prev => [...prev, pattern.id])} className="flex items-center gap-1 p-1 text-zinc-600 hover:text-cyan-400" title={t.addToChain}>
+          <Link size={12} />
+          <span className="text-[8px] font-black uppercase">{t.chain}</span>
+        </button>
+        {chain.map((id, i) => (
+          <button
+            key={`${id}:${i}`}
+            onClick={() => setChain(prev => prev.filter((_, j) => j !== i))}
+            className="group flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-zinc-900 border border-zinc-800 text-[8px] font-black text-zinc-400 uppercase"
+            title={t.removeFromChain}
+          >
+            {patterns.find(p => p.id === id)?.name}
+            <X size={8} className="opacity-0 group-hover:opacity-100" />
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto no-scrollbar">
+        <div className="grid gap-0.5" style={{ gridTemplateColumns: `32px repeat(${pattern.length}, minmax(26px, 1fr))` }}>
+          <span className="text-[6px] font-black uppercase text-zinc-700 self-center">{t.step}</span>
+          {steps.map((step, i) => (
+            <button
+              key={i}
+              onClick={() => updateStep(i, { active: !step.active })}
+              className={`h-6 rounded text-[7px] font-black mono border transition-colors ${activeStep === i ? 'border-white' : i % 4 === 0 ? 'border-zinc-700' : 'border-zinc-900'} ${step.active ? (step.accent ? 'bg-amber-500 text-black' : 'bg-cyan-600 text-black') : 'bg-zinc-900 text-zinc-600'}`}
+            >
+              {i + 1}
+            </button>
+          ))}
+
+          <span className="text-[6px] font-black uppercase text-zinc-700 self-center">{t.note}</span>
+          {steps.map((step, i) => (
+            <div key={i} className="flex flex-col items-center bg-zinc-900/50 rounded" onWheel={(e) => updateStep(i, { note: Math.max(0, Math.min(127, step.note + (e.deltaY < 0 ? 1 : -1))) })}>
+              <button onClick={() => updateStep(i, { note: Math.min(127, step.note + 1) })} className="text-zinc-600 hover:text-cyan-400"><ChevronUp size={8} /></button>
+              <span className={`text-[7px] font-black mono ${step.active ? 'text-zinc-200' : 'text-zinc-600'}`}>{getNoteLabel(step.note)}</span>
+              <button onClick={() => updateStep(i, { note: Math.max(0, step.note - 1) })} className="text-zinc-600 hover:text-cyan-400"><ChevronDown size={8} /></button>
+            </div>
+          ))}
+
+          <span className="text-[6px] font-black uppercase text-zinc-700 self-center">{t.gate}</span>
+          {steps.map((step, i) => (
+            <button key={i} onClick={() => updateStep(i, { gate: nextValue(GATE_STEPS, step.gate) })} className="h-4 bg-zinc-900 rounded overflow-hidden flex items-end" title={`${t.gate} ${Math.round(step.gate * 100)}%`}>
+              <div className="h-full bg-zinc-600" style={{ width: `${step.gate * 100}%` }} />
+            </button>
+          ))}
+
+          <span className="text-[6px] font-black uppercase text-zinc-700 self-center">{t.velocityShort}</span>
+          {steps.map((step, i) => (
+            <button key={i} onClick={() => updateStep(i, { velocity: nextValue(VELOCITY_STEPS, step.velocity) })} className="h-4 bg-zinc-900 rounded overflow-hidden flex items-end" title={`${t.velocity} ${Math.round(step.velocity * 127)}`}>
+              <div className="w-full bg-cyan-800" style={{ height: `${step.velocity * 100}%` }} />
+            </button>
+          ))}
+
+          <span className="text-[6px] font-black uppercase text-zinc-700 self-center">{t.slide}</span>
+          {steps.map((step, i) => (
+            <button key={i} onClick={() => updateStep(i, { slide: !step.slide })} className={`h-4 rounded text-[6px] font-black border ${step.slide ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-900 text-zinc-700'}`}>
+              S
+            </button>
+          ))}
+
+          <span className="text-[6px] font-black uppercase text-zinc-700 self-center">{t.accentShort}</span>
+          {steps.map((step, i) => (
+            <button key={i} onClick={() => updateStep(i, { accent: !step.accent })} className={`h-4 rounded text-[6px] font-black border ${step.accent ? 'bg-amber-500/20 border-amber-600 text-amber-400' : 'bg-zinc-900 border-zinc-900 text-zinc-700'}`}>
+              A
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Sequencer;
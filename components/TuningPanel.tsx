@@ -0,0 +1,142 @@
+import React, { useRef } from 'react';
+import { TuningSettings, Temperament, Language } from '../types';
+import { TRANSLATIONS, TEMPERAMENTS, REFERENCE_PITCHES, NOTE_NAMES } from '../constants';
+import { parseScl, parseKbm } from '../services/tuning';
+import { Ruler, FileUp, X } from 'lucide-react';
+
+interface TuningPanelProps {
+  tuning: TuningSettings;
+  onChange: (tuning: TuningSettings) => void;
+  lang: Language;
+}
+
+const MIN_REFERENCE_PITCH = 400;
+const MAX_REFERENCE_PITCH = 480;
+
+const selectClass = "bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-[9px] font-black text-zinc-300 uppercase focus:outline-none focus:border-cyan-700";
+
+const TuningPanel: React.FC<TuningPanelProps> = ({ tuning, onChange, lang }) => {
+  const t = TRANSLATIONS[lang];
+  const sclInputRef = useRef<HTMLInputElement>(null);
+  const kbmInputRef = useRef<HTMLInputElement>(null);
+  const update = (changes: Partial<TuningSettings>) => onChange({ ...tuning, ...changes });
+
+  const importScl = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const scala = parseScl(await file.text(), file.name.replace(/\.scl$/i, ''));
+      update({ scala, temperament: 'scala' });
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const importKbm = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ keyboardMap: parseKbm(await file.text()) });
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Committed on blur so half-typed values don't retune the keys mid-edit
+  const commitReferencePitch = (value: string) => {
+    const pitch = parseFloat(value);
+    if (isNaN(pitch)) return;
+    update({ referencePitch: Math.min(MAX_REFERENCE_PITCH, Math.max(MIN_REFERENCE_PITCH, pitch)) });
+  };
+
+  // A .kbm carries its own reference frequency, which takes over from the A4 setting
+  const usesKeyboardMap = tuning.temperament === 'scala' && tuning.scala !== null && tuning.keyboardMap !== null;
+
+  return (
+    <section className="bg-zinc-900/20 p-4 rounded-2xl border border-zinc-800/50 lg:col-span-2">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-[10px] font-black text-zinc-400 uppercase tracking-widest flex items-center gap-2">
+          <Ruler size={14} className="text-cyan-500" /> {t.tuning}
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={() => sclInputRef.current?.click()} className="flex items-center gap-1.5 text-[10px] font-black text-cyan-400 bg-cyan-950/30 border border-cyan-900/50 px-3 py-1.5 rounded-lg active:scale-95 transition-transform">
+            <FileUp size={14} /> .SCL
+          </button>
+          <button onClick={() => kbmInputRef.current?.click()} className="flex items-center gap-1.5 text-[10px] font-black text-cyan-400 bg-cyan-950/30 border border-cyan-900/50 px-3 py-1.5 rounded-lg active:scale-95 transition-transform">
+            <FileUp size={14} /> .KBM
+          </button>
+          <input ref={sclInputRef} type="file" accept=".scl" onChange={importScl} className="hidden" />
+          <input ref={kbmInputRef} type="file" accept=".kbm" onChange={importKbm} className="hidden" />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className={`flex items-center gap-2 ${usesKeyboardMap ? 'opacity-40' : ''}`}>
+          <span className="text-[8px] font-black uppercase text-zinc-600">A4</span>
+          <input
+            key={tuning.referencePitch}
+            type="number" min={MIN_REFERENCE_PITCH} max={MAX_REFERENCE_PITCH} step="0.1"
+            defaultValue={tuning.referencePitch}
+            onBlur={(e) => commitReferencePitch(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            className="w-16 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-black text-cyan-400 mono focus:outline-none focus:border-cyan-700"
+          />
+          <span className="text-[8px] font-black text-zinc-600">Hz</span>
+          {REFERENCE_PITCHES.map(pitch => (
+            <button
+              key={pitch}
+              onClick={() => update({ referencePitch: pitch })}
+              className={`px-1.5 py-1 rounded text-[8px] font-black mono border ${tuning.referencePitch === pitch ? 'bg-cyan-950/40 border-cyan-700 text-cyan-400' : 'bg-zinc-900 border-zinc-800 text-zinc-600'}`}
+            >
+              {pitch}
+            </button>
+          ))}
+        </div>
+
+        <select value={tuning.temperament} onChange={(e) => update({ temperament: e.target.value as Temperament })} className={selectClass}>
+          {(Object.keys(TEMPERAMENTS) as Exclude<Temperament, 'scala'>[]).map(id => <option key={id} value={id}>{TEMPERAMENTS[id].label}</option>)}
+          {tuning.scala && <option value="scala">Scala: {tuning.scala.name}</option>}
+        </select>
+
+        {tuning.temperament !== 'scala' && tuning.temperament !== 'equal' && (
+          <div className="flex items-center gap-2">
+            <span className="text-[8px] font-black uppercase text-zinc-600">Root</span>
+            <select value={tuning.root} onChange={(e) => update({ root: parseInt(e.target.value) })} className={selectClass}>
+              {NOTE_NAMES.map((name, i) => <option key={name} value={i}>{name}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {(tuning.scala || tuning.keyboardMap) && (
+        <div className="mt-3 flex flex-col gap-2">
+          {tuning.scala && (
+            <div className="flex items-center justify-between p-3 bg-zinc-900 border border-zinc-800/50 rounded-xl">
+              <div className="flex flex-col min-w-0">
+                <span className="text-[9px] font-black text-zinc-100 uppercase mono truncate">{tuning.scala.name} · {tuning.scala.cents.length} notes</span>
+                <span className="text-[7px] text-zinc-500 uppercase tracking-widest truncate">{tuning.scala.description}</span>
+              </div>
+              <button onClick={() => update({ scala: null, temperament: tuning.temperament === 'scala' ? 'equal' : tuning.temperament })} className="text-zinc-700 hover:text-red-500 transition-colors p-1">
+                <X size={12} />
+              </button>
+            </div>
+          )}
+          {tuning.keyboardMap && (
+            <div className="flex items-center justify-between p-3 bg-zinc-900 border border-zinc-800/50 rounded-xl">
+              <span className="text-[9px] font-black text-zinc-100 uppercase mono">
+                KBM · {tuning.keyboardMap.size || 'Linear'} keys · Note {tuning.keyboardMap.referenceNote} = {tuning.keyboardMap.referenceFrequency.toFixed(2)} Hz
+              </span>
+              <button onClick={() => update({ keyboardMap: null })} className="text-zinc-700 hover:text-red-500 transition-colors p-1">
+                <X size={12} />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TuningPanel;
@@ -1,5 +1,5 @@
 
-import { SynthSettings } from './types';
+import { SynthSettings, TransportSettings, QuantizeSettings, ArpSettings, ArpMode, InputSettings, ScaleType, TuningSettings, Temperament, KeyboardLayout, MappableParam, WaveformType, VelocityCurve, PressureTarget, LfoDestination, ModSource, VoiceMode, StealMode } from './types';
 
 export const NOTES = [
   // Octave 1
@@ -31,18 +31,87 @@ export const NOTES = [
   { label: 'C5', freq: 523.25 },
 ];
 
+export const MAPPABLE_PARAMS: MappableParam[] = [
+  { id: 'filter.frequency', label: 'Filter Cutoff', min: 20, max: 15000 },
+  { id: 'filter.resonance', label: 'Filter Resonance', min: 0.1, max: 20 },
+  { id: 'filter.type', label: 'Filter Type', min: 0, max: 1 },
+  { id: 'filter.slope', label: 'Filter Slope', min: 0, max: 1 },
+  { id: 'filter.envAmount', label: 'Filter Env Amount', min: -1, max: 1 },
+  { id: 'filter.keyTrack', label: 'Filter Key Tracking', min: 0, max: 1 },
+  { id: 'filterEnvelope.attack', label: 'Filter Attack', min: 0.001, max: 2 },
+  { id: 'filterEnvelope.decay', label: 'Filter Decay', min: 0.01, max: 2 },
+  { id: 'filterEnvelope.sustain', label: 'Filter Sustain', min: 0, max: 1 },
+  { id: 'filterEnvelope.release', label: 'Filter Release', min: 0.01, max: 3 },
+  { id: 'envelope.attack', label: 'Attack', min: 0.01, max: 2 },
+  { id: 'envelope.decay', label: 'Decay', min: 0.01, max: 2 },
+  { id: 'envelope.sustain', label: 'Sustain', min: 0.01, max: 1 },
+  { id: 'envelope.release', label: 'Release', min: 0.01, max: 3 },
+  { id: 'gain', label: 'Master Volume', min: 0, max: 1 },
+  { id: 'velocity.ampAmount', label: 'Velocity > Amp', min: 0, max: 1 },
+  { id: 'velocity.filterAmount', label: 'Velocity > Filter', min: 0, max: 1 },
+  { id: 'detune', label: 'Detune', min: -100, max: 100 },
+  { id: 'stereoWidth', label: 'Stereo Width', min: 0, max: 1 },
+  { id: 'reverb', label: 'Reverb Mix', min: 0, max: 0.8 },
+  { id: 'reverbParams.size', label: 'Reverb Size', min: 0, max: 1 },
+  { id: 'reverbParams.decay', label: 'Reverb Decay', min: 0.1, max: 8 },
+  { id: 'reverbParams.preDelay', label: 'Reverb Pre-Delay', min: 0, max: 0.5 },
+  { id: 'reverbParams.damping', label: 'Reverb Damping', min: 0, max: 1 },
+  { id: 'delay', label: 'Delay Mix', min: 0, max: 0.8 },
+  { id: 'performance.bendRange', label: 'Pitch Bend Range', min: 0, max: 24, step: 1 },
+  { id: 'performance.vibratoRate', label: 'Vibrato Rate', min: 0.1, max: 12 },
+  { id: 'performance.vibratoDepth', label: 'Vibrato Depth', min: 0, max: 100 },
+  { id: 'performance.modFilterDepth', label: 'Mod Wheel > Filter', min: 0, max: 1 },
+  { id: 'performance.pressureAmount', label: 'Pressure Amount', min: 0, max: 1 },
+  { id: 'lfo1.rate', label: 'LFO 1 Rate', min: 0.05, max: 20 },
+  { id: 'lfo1.depth', label: 'LFO 1 Depth', min: 0, max: 1 },
+  { id: 'lfo1.waveform', label: 'LFO 1 Waveform', min: 0, max: 1 },
+  { id: 'lfo2.rate', label: 'LFO 2 Rate', min: 0.05, max: 20 },
+  { id: 'lfo2.depth', label: 'LFO 2 Depth', min: 0, max: 1 },
+  { id: 'lfo2.waveform', label: 'LFO 2 Waveform', min: 0, max: 1 },
+  { id: 'polyphony.maxVoices', label: 'Max Voices', min: 1, max: 32, step: 1 },
+  { id: 'glideSpeed', label: 'Glide Speed', min: 0.01, max: 1 },
+  { id: 'glide', label: 'Glide Toggle', min: 0, max: 1 },
+  { id: 'waveform', label: 'Waveform', min: 0, max: 1 },
+  { id: 'osc2.waveform', label: 'Osc 2 Waveform', min: 0, max: 1 },
+  { id: 'osc2.octave', label: 'Osc 2 Octave', min: -2, max: 2, step: 1 },
+  { id: 'osc2.semitone', label: 'Osc 2 Semitone', min: -12, max: 12, step: 1 },
+  { id: 'osc2.level', label: 'Osc 2 Level', min: 0, max: 1 },
+  { id: 'sub.level', label: 'Sub Level', min: 0, max: 1 },
+  { id: 'noiseLevel', label: 'Noise Level', min: 0, max: 1 },
+  { id: 'unison.voices', label: 'Unison Voices', min: 1, max: 7, step: 1 },
+  { id: 'unison.detune', label: 'Unison Detune', min: 0, max: 100 },
+];
+
 export const KEY_BINDINGS: Record<string, string> = {
   'z': 'C3', 's': 'C#3', 'x': 'D3', 'd': 'D#3', 'c': 'E3', 'v': 'F3', 'g': 'F#3', 'b': 'G3', 'h': 'G#3', 'n': 'A3', 'j': 'A#3', 'm': 'B3',
   'q': 'C4', '2': 'C#4', 'w': 'D4', '3': 'D#4', 'e': 'E4', 'r': 'F4', '5': 'F#4', 't': 'G4', '6': 'G#4', 'y': 'A4', '7': 'A#4', 'u': 'B4', 'i': 'C5',
 };
 
+// Lowest key the QWERTY bindings and the default keyboard view start from (C3)
+export const KEYBOARD_BASE_NOTE = 48;
+export const KEYBOARD_OCTAVES = [2, 3, 4, 5, 7];
+export const MAX_OCTAVE_SHIFT = 3;
+export const DEFAULT_KEYBOARD_LAYOUT: KeyboardLayout = { octaves: 2, octaveShift: 0 };
+
 export const DEFAULT_SETTINGS: SynthSettings = {
   waveform: 'sawtooth',
+  osc2: { waveform: 'square', octave: 0, semitone: 0, level: 0 },
+  sub: { level: 0, octave: 1 },
+  noiseLevel: 0,
+  unison: { voices: 1, detune: 20 },
   envelope: { attack: 0.1, decay: 0.2, sustain: 0.5, release: 0.5 },
-  filter: { frequency: 2000, resonance: 1, type: 'lowpass' },
+  filter: { frequency: 2000, resonance: 1, type: 'lowpass', slope: 12, envAmount: 0, keyTrack: 0 },
+  filterEnvelope: { attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.5 },
+  velocity: { curve: 'linear', ampAmount: 0.8, filterAmount: 0.3 },
+  polyphony: { voiceMode: 'poly', maxVoices: 16, stealMode: 'oldest' },
+  lfo1: { waveform: 'sine', rate: 4, depth: 0, sync: false, division: 1, retrigger: false, destination: 'filter' },
+  lfo2: { waveform: 'triangle', rate: 0.5, depth: 0, sync: false, division: 4, retrigger: false, destination: 'pan' },
+  modMatrix: [],
+  performance: { bendRange: 2, vibratoRate: 5.5, vibratoDepth: 40, modFilterDepth: 0.3, pressureTarget: 'vibrato', pressureAmount: 0.5 },
   detune: 0,
   gain: 0.5,
   reverb: 0.3,
+  reverbParams: { size: 0.6, decay: 2.5, preDelay: 0.02, damping: 0.5 },
   delay: 0.2,
   stereoWidth: 0.8,
   masterTune: 0,
@@ -50,7 +119,106 @@ export const DEFAULT_SETTINGS: SynthSettings = {
   glideSpeed: 0.1,
 };
 
+// Fills in parameters added after a preset was saved, one level deep to match the settings shape
+export const mergeSettings = (stored: Partial<SynthSettings>): SynthSettings => {
+  const merged: SynthSettings = { ...DEFAULT_SETTINGS, ...stored };
+  const fillIn = <K extends keyof SynthSettings>(key: K) => {
+    const fallback = DEFAULT_SETTINGS[key];
+    if (fallback && typeof fallback === 'object' && !Array.isArray(fallback)) {
+      merged[key] = Object.assign({}, fallback, stored[key]);
+    }
+  };
+  (Object.keys(DEFAULT_SETTINGS) as (keyof SynthSettings)[]).forEach(fillIn);
+  return merged;
+};
+
+export const DEFAULT_TRANSPORT: TransportSettings = { bpm: 120, beatsPerBar: 4, beatUnit: 4, countInBars: 1 };
+export const TIME_SIGNATURES: [number, number][] = [[2, 4], [3, 4], [4, 4], [5, 4], [6, 8], [7, 8], [12, 8]];
+export const COUNT_IN_BARS = [0, 1, 2];
+export const QUANTIZE_DIVISIONS: { beats: number; label: string }[] = [
+  { beats: 1, label: '1/4' },
+  { beats: 0.5, label: '1/8' },
+  { beats: 0.25, label: '1/16' },
+  { beats: 0.125, label: '1/32' },
+];
+export const DEFAULT_QUANTIZE: QuantizeSettings = { division: 0.25, triplet: false, strength: 1, swing: 0, onRecord: false };
+export const LOOP_RATES = [0.5, 0.75, 1, 1.5, 2];
+export const DEFAULT_ARP: ArpSettings = { enabled: false, mode: 'up', octaves: 1, division: 0.25, triplet: false, gate: 0.5, latch: false };
+export const ARP_MODES: { id: ArpMode; label: string }[] = [
+  { id: 'up', label: 'Up' },
+  { id: 'down', label: 'Down' },
+  { id: 'upDown', label: 'Up/Down' },
+  { id: 'random', label: 'Random' },
+  { id: 'asPlayed', label: 'As Played' },
+];
+export const ARP_MAX_OCTAVES = 4;
+export const SCALES: Record<ScaleType, { label: string; intervals: number[] }> = {
+  major: { label: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  minor: { label: 'Minor', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  dorian: { label: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  mixolydian: { label: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10] },
+  harmonicMinor: { label: 'Harmonic Minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  majorPentatonic: { label: 'Major Pentatonic', intervals: [0, 2, 4, 7, 9] },
+  minorPentatonic: { label: 'Minor Pentatonic', intervals: [0, 3, 5, 7, 10] },
+  blues: { label: 'Blues', intervals: [0, 3, 5, 6, 7, 10] },
+};
+export const DEFAULT_TUNING: TuningSettings = { referencePitch: 440, temperament: 'equal', root: 0, scala: null, keyboardMap: null };
+export const REFERENCE_PITCHES = [415, 432, 440, 442, 444];
+// Cents of each pitch class above the tonic
+export const TEMPERAMENTS: Record<Exclude<Temperament, 'scala'>, { label: string; cents: number[] }> = {
+  equal: { label: 'Equal', cents: [0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 1000, 1100] },
+  pythagorean: { label: 'Pythagorean', cents: [0, 113.69, 203.91, 294.13, 407.82, 498.04, 611.73, 701.96, 815.64, 905.87, 996.09, 1109.78] },
+  meantone: { label: '1/4-Comma Meantone', cents: [0, 76.05, 193.16, 310.26, 386.31, 503.42, 579.47, 696.58, 772.63, 889.74, 1006.84, 1082.89] },
+  werckmeister3: { label: 'Werckmeister III', cents: [0, 90.22, 192.18, 294.13, 390.22, 498.04, 588.27, 696.09, 792.18, 888.27, 996.09, 1092.18] },
+  kirnberger3: { label: 'Kirnberger III', cents: [0, 90.22, 193.16, 294.13, 386.31, 498.04, 590.22, 696.58, 792.18, 889.74, 996.09, 1088.27] },
+  just: { label: 'Just (5-Limit)', cents: [0, 111.73, 203.91, 315.64, 386.31, 498.04, 590.22, 701.96, 813.69, 884.36, 1017.6, 1088.27] },
+};
+export const DEFAULT_INPUT: InputSettings = { chordMemory: false, chord: [0, 4, 7], scaleLock: false, root: 0, scale: 'major' };
+export const MIN_BPM = 40;
+export const MAX_BPM = 240;
+
 export const midiNoteToFrequency = (note: number): number => 440 * Math.pow(2, (note - 69) / 12);
+export const frequencyToMidiNote = (freq: number): number => Math.round(69 + 12 * Math.log2(freq / 440));
+export const WAVEFORMS: WaveformType[] = ['sine', 'square', 'sawtooth', 'triangle'];
+export const FILTER_TYPES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch', 'peaking'];
+export const VELOCITY_CURVES: VelocityCurve[] = ['linear', 'soft', 'hard', 'fixed'];
+export const applyVelocityCurve = (velocity: number, curve: VelocityCurve): number => {
+  const v = Math.min(1, Math.max(0, velocity));
+  switch (curve) {
+    case 'soft': return Math.sqrt(v);
+    case 'hard': return v * v;
+    case 'fixed': return 1;
+    default: return v;
+  }
+};
+export const VOICE_MODES: VoiceMode[] = ['poly', 'mono', 'legato'];
+export const STEAL_MODES: StealMode[] = ['oldest', 'quietest', 'same-note'];
+export const LFO_DESTINATIONS: LfoDestination[] = ['pitch', 'filter', 'amp', 'pan', 'delay'];
+// Synced LFO lengths in beats, from a whole bar down to a 32nd note
+export const LFO_DIVISIONS: { beats: number; label: string }[] = [
+  { beats: 4, label: '1/1' },
+  { beats: 2, label: '1/2' },
+  { beats: 1, label: '1/4' },
+  { beats: 0.5, label: '1/8' },
+  { beats: 0.25, label: '1/16' },
+  { beats: 0.125, label: '1/32' },
+];
+export const MOD_SOURCES: { id: ModSource; label: string }[] = [
+  { id: 'env', label: 'Amp Envelope' },
+  { id: 'filterEnv', label: 'Filter Envelope' },
+  { id: 'lfo1', label: 'LFO 1' },
+  { id: 'lfo2', label: 'LFO 2' },
+  { id: 'velocity', label: 'Velocity' },
+  { id: 'modWheel', label: 'Mod Wheel' },
+  { id: 'aftertouch', label: 'Aftertouch' },
+];
+export const PRESSURE_TARGETS: PressureTarget[] = ['off', 'vibrato', 'filter'];
+
+// Controllers with a fixed performance meaning that never go through MIDI learn
+export const MOD_WHEEL_CC = 1;
+export const SUSTAIN_PEDAL_CC = 64;
+export const RESERVED_CCS = [MOD_WHEEL_CC, SUSTAIN_PEDAL_CC];
+
 export const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
 export const getNoteLabel = (midiNote: number): string => {
   const name = NOTE_NAMES[midiNote % 12];
@@ -101,6 +269,10 @@ export const TRANSLATIONS = {
     emptyLibrary: "Your library is empty. Save a sound!",
     localStoreNotice: "All sounds are stored locally.",
     sequencer: "Sequencer & Loops",
+    arpeggiator: "Arpeggiator",
+    chordMemory: "Chord Memory",
+    scaleLock: "Scale Lock",
+    tuning: "Tuning",
     rec: "REC",
     stop: "STOP",
     globalStop: "GLOBAL STOP",
@@ -110,7 +282,115 @@ export const TRANSLATIONS = {
     fastAttack: "Fast Attack",
     slowAttack: "Slow Attack",
     sustained: "Sustained",
-    quickRelease: "Quick Release"
+    quickRelease: "Quick Release",
+    filterEnvelope: "Filter Envelope",
+    pluck: "Pluck",
+    brass: "Brass",
+    slowSweep: "Slow Sweep",
+    staticFilter: "Static",
+    modMatrix: "Modulation Matrix",
+    addModSlot: "Add Slot",
+    emptyModMatrix: "No modulation routings",
+    renderFailed: "WAV render failed",
+    midiImportFailed: "Not a readable MIDI file",
+    midiImportEmpty: "MIDI file has no notes",
+    armTake: "Arm Output Recording (starts on next note)",
+    recordTake: "Record Output",
+    stopTake: "Stop Output Recording",
+    outputTakes: "Output Takes",
+    downloadTake: "Download Take",
+    startRecording: "Start Recording",
+    loops: "Loops",
+    noLoopsShort: "No Loops",
+    loopManagement: "Loop Management",
+    undo: "Undo",
+    redo: "Redo",
+    click: "Click",
+    timeSignature: "Time Signature",
+    countIn: "Count-In",
+    off: "Off",
+    bar: "Bar",
+    bars: "Bars",
+    noRecording: "No recording found.",
+    cycleMode: "Cycle Playback Mode",
+    loopStorageNotice: "Storage: Local Browser Persistence",
+    modeLoop: "Loop",
+    modeOneShot: "One-Shot",
+    modePingPong: "Ping-Pong",
+    cancelCountIn: "Cancel Count-In",
+    stopOverdub: "Stop Overdub",
+    stopRecording: "Stop Recording",
+    overdubHint: "Overdub: REC layers onto the playing loop",
+    dub: "Dub",
+    loopSyncHint: "Sync loops to the bar grid or to the first loop's length",
+    syncBar: "Bar",
+    syncLoop: "Loop",
+    wavBitDepth: "WAV Bit Depth",
+    exportAllWav: "Export All Loops Mixed as WAV",
+    exportWav: "Export WAV",
+    importMidi: "Import MIDI File",
+    exportAllMidi: "Export All Loops as MIDI",
+    exportMidi: "Export MIDI",
+    quantizeGrid: "Quantize Grid",
+    tripletGrid: "Triplet Grid",
+    quantizeStrength: "Quantize Strength",
+    strengthShort: "STR",
+    swing: "Swing",
+    swingShort: "SWG",
+    quantizeOnRecord: "Quantize While Recording",
+    quantize: "Quantize",
+    editNotes: "Edit Notes",
+    loopSound: "Loop Sound",
+    sound: "Sound",
+    livePatch: "Live Patch",
+    snapshot: "Snapshot",
+    snapshotCurrent: "Snapshot Current Patch",
+    recapturePatch: "Recapture Current Patch",
+    transposeShort: "Trans",
+    rate: "Rate",
+    gain: "Gain",
+    newPattern: "New Pattern",
+    duplicatePattern: "Duplicate Pattern",
+    clearPattern: "Clear Pattern",
+    deletePattern: "Delete Pattern",
+    patternLength: "Pattern Length",
+    chain: "Chain",
+    addToChain: "Add To Chain",
+    removeFromChain: "Remove From Chain",
+    step: "Step",
+    note: "Note",
+    gate: "Gate",
+    velocity: "Velocity",
+    velocityShort: "Vel",
+    slide: "Slide",
+    accentShort: "Acc",
+    draw: "Draw",
+    drawNotes: "Draw Notes",
+    snapSixteenth: "Snap to 1/16",
+    deleteNote: "Delete Note",
+    dragToMove: "Drag to move",
+    edgeToResize: "Edge to resize",
+    doubleClickToDelete: "Double-click or Del to delete",
+    dragVelocityBars: "Drag velocity bars",
+    arpUp: "Up",
+    arpDown: "Down",
+    arpUpDown: "Up/Down",
+    arpRandom: "Random",
+    arpAsPlayed: "As Played",
+    octavesShort: "Oct",
+    triplet: "Triplet",
+    latch: "Latch",
+    learn: "Learn",
+    playChord: "Play Chord...",
+    learnChordHint: "Hold a chord, then release it",
+    scaleMajor: "Major",
+    scaleMinor: "Minor",
+    scaleDorian: "Dorian",
+    scaleMixolydian: "Mixolydian",
+    scaleHarmonicMinor: "Harmonic Minor",
+    scaleMajorPentatonic: "Major Pentatonic",
+    scaleMinorPentatonic: "Minor Pentatonic",
+    scaleBlues: "Blues"
   },
   zh: {
     appTitle: "Gemini 合成器专业版",
@@ -154,6 +434,10 @@ export const TRANSLATIONS = {
     emptyLibrary: "库中没有预设。保存一个声音吧！",
     localStoreNotice: "所有声音都存储在本地浏览器中。",
     sequencer: "序列器与循环",
+    arpeggiator: "琶音器",
+    chordMemory: "和弦记忆",
+    scaleLock: "音阶锁定",
+    tuning: "调律",
     rec: "录制",
     stop: "停止",
     globalStop: "全局停止",
@@ -163,6 +447,114 @@ export const TRANSLATIONS = {
     fastAttack: "快速起音",
     slowAttack: "慢速起音",
     sustained: "持续音",
-    quickRelease: "快速释放"
+    quickRelease: "快速释放",
+    filterEnvelope: "滤波包络",
+    pluck: "拨弦",
+    brass: "铜管",
+    slowSweep: "慢速扫频",
+    staticFilter: "静态",
+    modMatrix: "调制矩阵",
+    addModSlot: "添加路由",
+    emptyModMatrix: "暂无调制路由",
+    renderFailed: "WAV 渲染失败",
+    midiImportFailed: "无法读取该 MIDI 文件",
+    midiImportEmpty: "MIDI 文件中没有音符",
+    armTake: "预备录制输出（下一个音符开始）",
+    recordTake: "录制输出",
+    stopTake: "停止录制输出",
+    outputTakes: "输出录音",
+    downloadTake: "下载录音",
+    startRecording: "开始录制",
+    loops: "个循环",
+    noLoopsShort: "无循环",
+    loopManagement: "循环管理",
+    undo: "撤销",
+    redo: "重做",
+    click: "节拍器",
+    timeSignature: "拍号",
+    countIn: "预备拍",
+    off: "关",
+    bar: "小节",
+    bars: "小节",
+    noRecording: "暂无录音。",
+    cycleMode: "切换播放模式",
+    loopStorageNotice: "存储：浏览器本地保存",
+    modeLoop: "循环",
+    modeOneShot: "单次",
+    modePingPong: "往返",
+    cancelCountIn: "取消预备拍",
+    stopOverdub: "停止叠录",
+    stopRecording: "停止录制",
+    overdubHint: "叠录：REC 将新声部叠加到正在播放的循环上",
+    dub: "叠录",
+    loopSyncHint: "循环对齐到小节网格或第一个循环的长度",
+    syncBar: "小节",
+    syncLoop: "循环",
+    wavBitDepth: "WAV 位深",
+    exportAllWav: "将全部循环混音导出为 WAV",
+    exportWav: "导出 WAV",
+    importMidi: "导入 MIDI 文件",
+    exportAllMidi: "将全部循环导出为 MIDI",
+    exportMidi: "导出 MIDI",
+    quantizeGrid: "量化网格",
+    tripletGrid: "三连音网格",
+    quantizeStrength: "量化强度",
+    strengthShort: "强度",
+    swing: "摇摆",
+    swingShort: "摇摆",
+    quantizeOnRecord: "录制时量化",
+    quantize: "量化",
+    editNotes: "编辑音符",
+    loopSound: "循环音色",
+    sound: "音色",
+    livePatch: "当前音色",
+    snapshot: "快照",
+    snapshotCurrent: "为当前音色拍快照",
+    recapturePatch: "重新捕获当前音色",
+    transposeShort: "移调",
+    rate: "速率",
+    gain: "增益",
+    newPattern: "新建样式",
+    duplicatePattern: "复制样式",
+    clearPattern: "清空样式",
+    deletePattern: "删除样式",
+    patternLength: "样式长度",
+    chain: "串联",
+    addToChain: "加入串联",
+    removeFromChain: "移出串联",
+    step: "步",
+    note: "音符",
+    gate: "门限",
+    velocity: "力度",
+    velocityShort: "力度",
+    slide: "滑音",
+    accentShort: "重音",
+    draw: "绘制",
+    drawNotes: "绘制音符",
+    snapSixteenth: "吸附到 1/16",
+    deleteNote: "删除音符",
+    dragToMove: "拖动以移动",
+    edgeToResize: "拖动边缘调整长度",
+    doubleClickToDelete: "双击或按 Del 删除",
+    dragVelocityBars: "拖动力度条",
+    arpUp: "上行",
+    arpDown: "下行",
+    arpUpDown: "上下行",
+    arpRandom: "随机",
+    arpAsPlayed: "按弹奏顺序",
+    octavesShort: "八度",
+    triplet: "三连音",
+    latch: "锁定",
+    learn: "学习",
+    playChord: "请弹奏和弦...",
+    learnChordHint: "按住一个和弦，然后松开",
+    scaleMajor: "大调",
+    scaleMinor: "小调",
+    scaleDorian: "多利亚",
+    scaleMixolydian: "混合利底亚",
+    scaleHarmonicMinor: "和声小调",
+    scaleMajorPentatonic: "大调五声",
+    scaleMinorPentatonic: "小调五声",
+    scaleBlues: "布鲁斯"
   }
 };
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { ArpSettings, SynthSettings, TransportSettings } from '../types';
+import { getNoteLabel, frequencyToMidiNote } from '../constants';
+import { scheduler } from './scheduler';
+import { audioEngine } from './audioEngine';
+
+const ARP_TRACK = 'arpeggiator';
+
+export interface HeldNote {
+  note: string;
+  frequency: number;
+  velocity: number;
+}
+
+export interface ArpSource {
+  getArp: () => ArpSettings;
+  getSettings: () => SynthSettings;
+  getTransport: () => TransportSettings;
+  // Fired as each arpeggiated note actually sounds, so it can be shown and recorded like played input
+  onNoteStart: (note: string, frequency: number, velocity: number) => void;
+  onNoteEnd: (note: string) => void;
+}
+
+// Step length in ms; triplets fit three steps in the space of two
+export const arpStepDuration = (bpm: number, arp: ArpSettings): number =>
+  (60000 / bpm) * arp.division * (arp.triplet ? 2 / 3 : 1);
+
+const shiftOctaves = (held: HeldNote, octaves: number): HeldNote => octaves === 0 ? held : {
+  ...held,
+  note: getNoteLabel(frequencyToMidiNote(held.frequency) + octaves * 12),
+  frequency: held.frequency * Math.pow(2, octaves),
+};
+
+// One full run of the pattern across the octave range. Up/down turns round without
+// repeating the top and bottom notes; random draws from this run one step at a time.
+export const arpSequence = (held: HeldNote[], arp: ArpSettings): HeldNote[] => {
+  const ordered = arp.mode === 'asPlayed' ? held : [...held].sort((a, b) => a.frequency - b.frequency);
+  const run = Array.from({ length: Math.max(1, arp.octaves) }, (_, octave) => ordered.map(n => shiftOctaves(n, octave))).flat();
+  switch (arp.mode) {
+    case 'down': return run.reverse();
+    case 'upDown': return run.length > 2 ? [...run, ...run.slice(1, -1).reverse()] : run;
+    default: return run;
+  }
+};
+
+class Arpeggiator {
+  private source: ArpSource | null = null;
+  private held: HeldNote[] = []; // what the pattern runs over, in the order it was played
+  private pressed: Set<string> = new Set();
+  private position = 0;
+  private running = false;
+
+  public setSource(source: ArpSource) {
+    this.source = source;
+  }
+
+  public noteOn(note: string, frequency: number, velocity: number) {
+    // With latch on, the first key of a fresh chord replaces the one left ringing
+    if (this.source?.getArp().latch && this.pressed.size === 0) this.held = [];
+    this.pressed.add(note);
+    this.held = [...this.held.filter(n => n.note !== note), { note, frequency, velocity }];
+    if (!this.running) this.start();
+  }
+
+  public noteOff(note: string) {
+    this.pressed.delete(note);
+    if (!this.source?.getArp().latch) this.held = this.held.filter(n => n.note !== note);
+  }
+
+  // Turning latch off lets go of everything no longer held down
+  public setLatch(latch: boolean) {
+    if (!latch) this.held = this.held.filter(n => this.pressed.has(n.note));
+  }
+
+  public stop() {
+    scheduler.remove(ARP_TRACK);
+    this.held = [];
+    this.pressed.clear();
+    this.running = false;
+  }
+
+  private start() {
+    const source = this.source;
+    if (!source) return;
+    this.position = 0;
+    this.running = true;
+
+    // One step per pass, so new chords, rate and order changes are picked up on the very next step
+    scheduler.add(ARP_TRACK, {
+      getCycle: () => {
+        if (this.held.length === 0) {
+          this.running = false;
+          return null;
+        }
+        const arp = source.getArp();
+        const step = arpStepDuration(source.getTransport().bpm, arp);
+        const sequence = arpSequence(this.held, arp);
+        const next = arp.mode === 'random'
+          ? sequence[Math.floor(Math.random() * sequence.length)]
+          : sequence[this.position % sequence.length];
+        this.position++;
+        return {
+          // A full gate still ends just before the next step so repeated pitches release cleanly
+          events: [{ note: next.note, frequency: next.frequency, velocity: next.velocity, startTime: 0, timestamp: 0, duration: Math.min(step * arp.gate, step - 1) }],
+          duration: step,
+        };
+      },
+      onNoteOn: (event, voiceId, time) => {
+        audioEngine.playNote(event.frequency, voiceId, source.getSettings(), { time, velocity: event.velocity });
+        this.notify(time, () => source.onNoteStart(event.note, event.frequency, event.velocity ?? 1));
+      },
+      onNoteOff: (event, voiceId, time) => {
+        audioEngine.stopNote(voiceId, source.getSettings(), time);
+        this.notify(time, () => source.onNoteEnd(event.note));
+      },
+      onEnd: () => { this.running = false; },
+    });
+  }
+
+  // Notes are queued ahead of the audio clock; listeners hear about them when they sound
+  private notify(time: number, callback: () => void) {
+    window.setTimeout(callback, Math.max(0, (time - scheduler.now()) * 1000));
+  }
+}
+
+export const arpeggiator = new Arpeggiator();
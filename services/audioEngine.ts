@@ -1,60 +1,536 @@
 
-import { SynthSettings, WaveformType } from '../types';
+import { SynthSettings, WaveformType, PlayNoteOptions, LfoSettings, LfoDestination } from '../types';
+import { applyVelocityCurve } from '../constants';
+import { createImpulseResponse, reverbParamsKey, MAX_PRE_DELAY } from './reverb';
+import { AllocatedVoice, pickVoiceToSteal } from './voiceAllocator';
+import { applyModMatrix, envelopeLevel, lfoShape, ModSourceValues } from './modMatrix';
+import { tuning } from './tuning';
 
-class AudioEngine {
-  private ctx: AudioContext | null = null;
+// Short enough to be inaudible as a gap, long enough to avoid a click
+const STEAL_FADE = 0.005;
+// Full filter envelope amount sweeps the cutoff by five octaves
+const FILTER_ENV_RANGE = 6000;
+// Boost used when the filter is in peaking mode, which has no cutoff-style effect at 0 dB
+const PEAKING_GAIN = 12;
+const CLICK_FREQ = 1000;
+const CLICK_ACCENT_FREQ = 1600;
+const CLICK_LENGTH = 0.04;
+// The mod matrix re-evaluates at control rate, roughly 30 times a second
+const MOD_TICK = 33;
+// Bus-level destinations stay audible through the delay and reverb tails after the last voice ends
+const EFFECT_DESTINATIONS = ['gain', 'delay', 'reverb'];
+// Quiet period (ms) after the last room change before the impulse response is rebuilt
+const REVERB_REBUILD_DELAY = 150;
+// Modulation produced by an LFO at full depth, in the units of each destination
+const LFO_RANGES: Record<LfoDestination, number> = { pitch: 1200, filter: 4800, amp: 0.5, pan: 1, delay: 0.05 };
+// Key tracking is measured from middle C, where it leaves the cutoff untouched
+const KEY_TRACK_CENTER = 261.63;
+
+// Every oscillator in a voice shares the note frequency; octave, semitone and unison
+// offsets are expressed in cents on top of the global detune
+interface VoiceOscillator {
+  osc: OscillatorNode;
+  level: GainNode;
+  spread: StereoPannerNode;
+  offset: number;
+}
+
+interface Voice extends AllocatedVoice {
+  oscs: VoiceOscillator[];
+  noise: AudioBufferSourceNode | null;
+  noiseLevel: GainNode | null;
+  gain: GainNode;
+  filters: BiquadFilterNode[]; // one stage for 12 dB/oct, two cascaded for 24 dB/oct
+  velocityFactor: number;
+  panner: StereoPannerNode;
+  followsPatch: boolean;
+  label: string | null;
+}
+
+interface LfoChain {
+  osc: OscillatorNode;
+  depth: GainNode;
+  destination: LfoDestination | null;
+}
+
+export class AudioEngine {
+  private ctx: BaseAudioContext | null = null;
+  private offline = false;
+  private deferred: { at: number; action: () => void }[] = [];
   private masterGain: GainNode | null = null;
-  private filter: BiquadFilterNode | null = null;
+  private voiceBus: GainNode | null = null;
   private reverb: ConvolverNode | null = null;
+  private reverbPreDelay: DelayNode | null = null;
+  private reverbGain: GainNode | null = null;
+  private dryGain: GainNode | null = null;
+  private reverbKey: string | null = null;
+  private reverbRebuild: number | null = null;
   private delay: DelayNode | null = null;
   private delayGain: GainNode | null = null;
   private analyzer: AnalyserNode | null = null;
-  private activeNotes: Map<string, { osc: OscillatorNode; gain: GainNode; panner: StereoPannerNode }> = new Map();
-  private lastFrequency: number | null = null;
+  private recordTap: MediaStreamAudioDestinationNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  // Held notes by label; voices also contains those still ringing out their release
+  private activeNotes: Map<string, Voice> = new Map();
+  private voices: Voice[] = [];
+  private monoVoice: Voice | null = null;
+  private monoStack: { label: string; frequency: number }[] = [];
+
+  // Performance controllers: bend and vibrato are summed in cents onto every oscillator's detune,
+  // wheel/pressure filter movement is summed in cents onto each voice filter's detune
+  private pitchModBus: GainNode | null = null;
+  private filterModBus: GainNode | null = null;
+  private bendSource: ConstantSourceNode | null = null;
+  private pressureSource: ConstantSourceNode | null = null;
+  private modLfo: OscillatorNode | null = null;
+  private vibratoGain: GainNode | null = null;
+  private filterLfoGain: GainNode | null = null;
+  private pitchBend = 0;
+  private modWheel = 0;
+  private pressure = 0;
+  private sustainDown = false;
+  private sustainedNotes: Set<string> = new Set();
+
+  // Patch LFOs run globally; tremolo and auto-pan sit on the summed voices before the effects
+  private lfos: LfoChain[] = [];
+  private tremolo: GainNode | null = null;
+  private autoPan: StereoPannerNode | null = null;
+  private tempo = 120;
+  private lfoOrigins = [0, 0];
+
+  // Mod matrix state: the patch as stored, plus what the control-rate sources last saw
+  private baseSettings: SynthSettings | null = null;
+  private modTimer: number | null = null;
+  private lastVelocity = 0;
+  private lastNoteOn: number | null = null;
+  private lastRelease: number | null = null;
 
   constructor() {}
 
-  public init() {
+  // Pass an OfflineAudioContext to build the same graph for rendering instead of the speakers
+  public init(offlineCtx?: OfflineAudioContext) {
     if (this.ctx) return;
-    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.ctx = offlineCtx ?? new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.offline = !!offlineCtx;
     
     this.analyzer = this.ctx.createAnalyser();
     this.analyzer.fftSize = 2048;
 
+    // Two seconds of looped white noise shared by every voice's noise source
+    this.noiseBuffer = this.ctx.createBuffer(1, this.ctx.sampleRate * 2, this.ctx.sampleRate);
+    const noiseData = this.noiseBuffer.getChannelData(0);
+    for (let i = 0; i < noiseData.length; i++) noiseData[i] = Math.random() * 2 - 1;
+
     this.masterGain = this.ctx.createGain();
     this.masterGain.gain.value = 0.5;
 
-    this.filter = this.ctx.createBiquadFilter();
-    this.filter.type = 'lowpass';
-    this.filter.frequency.value = 2000;
+    this.voiceBus = this.ctx.createGain();
+    this.tremolo = this.ctx.createGain();
+    this.autoPan = this.ctx.createStereoPanner();
+    this.voiceBus.connect(this.tremolo);
+    this.tremolo.connect(this.autoPan);
 
     this.delay = this.ctx.createDelay(1.0);
     this.delay.delayTime.value = 0.3;
     this.delayGain = this.ctx.createGain();
     this.delayGain.gain.value = 0.2;
 
-    this.filter.connect(this.masterGain);
+    this.dryGain = this.ctx.createGain();
+    this.reverbPreDelay = this.ctx.createDelay(MAX_PRE_DELAY);
+    this.reverb = this.ctx.createConvolver();
+    this.reverbGain = this.ctx.createGain();
+    this.reverbGain.gain.value = 0;
+
+    this.autoPan.connect(this.dryGain);
+    this.dryGain.connect(this.masterGain);
+    this.autoPan.connect(this.reverbPreDelay);
+    this.reverbPreDelay.connect(this.reverb);
+    this.reverb.connect(this.reverbGain);
+    this.reverbGain.connect(this.masterGain);
+
     this.masterGain.connect(this.analyzer);
     this.analyzer.connect(this.ctx.destination);
 
     this.masterGain.connect(this.delay);
     this.delay.connect(this.delayGain);
     this.delayGain.connect(this.masterGain);
+
+    this.pitchModBus = this.ctx.createGain();
+    this.filterModBus = this.ctx.createGain();
+
+    this.bendSource = this.ctx.createConstantSource();
+    this.bendSource.offset.value = 0;
+    this.bendSource.connect(this.pitchModBus);
+    this.bendSource.start();
+
+    this.pressureSource = this.ctx.createConstantSource();
+    this.pressureSource.offset.value = 0;
+    this.pressureSource.connect(this.filterModBus);
+    this.pressureSource.start();
+
+    this.modLfo = this.ctx.createOscillator();
+    this.modLfo.type = 'sine';
+    this.vibratoGain = this.ctx.createGain();
+    this.vibratoGain.gain.value = 0;
+    this.filterLfoGain = this.ctx.createGain();
+    this.filterLfoGain.gain.value = 0;
+    this.modLfo.connect(this.vibratoGain);
+    this.vibratoGain.connect(this.pitchModBus);
+    this.modLfo.connect(this.filterLfoGain);
+    this.filterLfoGain.connect(this.filterModBus);
+    this.modLfo.start();
+
+    this.lfos = [0, 1].map(() => {
+      const depth = this.ctx!.createGain();
+      depth.gain.value = 0;
+      const osc = this.ctx!.createOscillator();
+      osc.connect(depth);
+      osc.start();
+      return { osc, depth, destination: null };
+    });
   }
 
   public updateSettings(settings: SynthSettings) {
-    if (!this.ctx || !this.filter || !this.masterGain || !this.delayGain || !this.delay) return;
+    this.baseSettings = settings;
+    this.syncModTimer();
+    this.applySettings(this.modulate(settings));
+  }
 
-    this.filter.frequency.setTargetAtTime(settings.filter.frequency, this.ctx.currentTime, 0.05);
-    this.filter.Q.setTargetAtTime(settings.filter.resonance, this.ctx.currentTime, 0.05);
-    this.masterGain.gain.setTargetAtTime(settings.gain, this.ctx.currentTime, 0.05);
-    this.delayGain.gain.setTargetAtTime(settings.delay, this.ctx.currentTime, 0.05);
+  // The matrix only needs re-evaluating while something can be heard moving: a voice that is
+  // sounding or releasing, or an LFO swept across the effects. Idle, the timer is stopped.
+  private syncModTimer() {
+    const slots = this.baseSettings?.modMatrix ?? [];
+    const lfoOnEffects = slots.some(slot => slot.source.startsWith('lfo') && EFFECT_DESTINATIONS.includes(slot.destination));
+    const needed = !this.offline && slots.length > 0 && (this.voices.length > 0 || lfoOnEffects);
+    if (needed && this.modTimer === null) {
+      this.modTimer = window.setInterval(() => this.advance(), MOD_TICK);
+    } else if (!needed && this.modTimer !== null) {
+      window.clearInterval(this.modTimer);
+      this.modTimer = null;
+    }
+  }
+
+  private modSources(settings: SynthSettings): ModSourceValues {
+    const now = this.ctx ? this.ctx.currentTime : 0;
+    const elapsed = this.lastNoteOn === null ? 0 : Math.max(0, now - this.lastNoteOn);
+    const releasedFor = this.activeNotes.size > 0 || this.lastRelease === null ? null : Math.max(0, now - this.lastRelease);
+    // The envelope sources are global: they follow the most recent note-on and the final release,
+    // not each voice, so a matrix slot on them moves every sounding note together
+    const envelope = (env: typeof settings.envelope) => this.lastNoteOn === null ? 0 : envelopeLevel(env, elapsed, releasedFor);
+    const lfo = (i: number) => {
+      const patchLfo = i === 0 ? settings.lfo1 : settings.lfo2;
+      return lfoShape(patchLfo.waveform, (now - this.lfoOrigins[i]) * this.lfoRate(patchLfo));
+    };
+
+    return {
+      env: envelope(settings.envelope),
+      filterEnv: envelope(settings.filterEnvelope),
+      lfo1: lfo(0),
+      lfo2: lfo(1),
+      velocity: this.lastVelocity,
+      modWheel: this.modWheel,
+      aftertouch: this.pressure,
+    };
+  }
+
+  private modulate(settings: SynthSettings): SynthSettings {
+    return settings.modMatrix.length > 0 ? applyModMatrix(settings, this.modSources(settings)) : settings;
+  }
+
+  private applySettings(settings: SynthSettings) {
+    if (!this.ctx || !this.voiceBus || !this.masterGain || !this.delayGain || !this.delay) return;
+
+    this.applyEffects(settings);
+    this.updatePerformance(settings);
+    this.updateLfos(settings);
     
-    this.activeNotes.forEach((note) => {
-        const freq = note.osc.frequency.value;
+    this.voices.forEach((note) => {
+        if (!note.followsPatch) return;
+        const freq = note.frequency;
         const panValue = this.calculatePan(freq, settings.stereoWidth);
         note.panner.pan.setTargetAtTime(panValue, this.ctx!.currentTime, 0.1);
-        note.osc.detune.setTargetAtTime(settings.detune + (settings.masterTune || 0), this.ctx!.currentTime, 0.05);
+        const cutoff = this.voiceCutoff(freq, note.velocityFactor, settings);
+        note.filters.forEach(f => f.frequency.setTargetAtTime(cutoff, this.ctx!.currentTime, 0.05));
+        this.shapeFilterStages(note.filters, settings, this.ctx!.currentTime);
+        note.oscs.forEach(({ osc, offset }) => {
+          osc.detune.setTargetAtTime(settings.detune + (settings.masterTune || 0) + offset, this.ctx!.currentTime, 0.05);
+        });
+    });
+  }
+
+  // The shared output stages, which stay audible through their tails with no voice sounding
+  private applyEffects(settings: SynthSettings) {
+    if (!this.ctx || !this.masterGain || !this.delayGain) return;
+    this.masterGain.gain.setTargetAtTime(settings.gain, this.ctx.currentTime, 0.05);
+    this.delayGain.gain.setTargetAtTime(settings.delay, this.ctx.currentTime, 0.05);
+    this.updateReverb(settings);
+  }
+
+  private updateReverb(settings: SynthSettings) {
+    if (!this.ctx || !this.reverb || !this.reverbGain || !this.dryGain || !this.reverbPreDelay) return;
+    const params = settings.reverbParams;
+
+    // Impulse generation is expensive, only rebuild when the room itself changes. While a knob is
+    // being dragged the rebuild waits for it to settle; the first room and offline renders are
+    // built straight away.
+    const key = reverbParamsKey(params);
+    if (key !== this.reverbKey) {
+      this.reverbKey = key;
+      if (this.reverbRebuild !== null) window.clearTimeout(this.reverbRebuild);
+      this.reverbRebuild = null;
+      const rebuild = () => {
+        this.reverbRebuild = null;
+        if (this.ctx && this.reverb) this.reverb.buffer = createImpulseResponse(this.ctx, params);
+      };
+      if (this.offline || !this.reverb.buffer) rebuild();
+      else this.reverbRebuild = window.setTimeout(rebuild, REVERB_REBUILD_DELAY);
+    }
+
+    const preDelay = Math.min(MAX_PRE_DELAY, Math.max(0, params.preDelay));
+    this.reverbPreDelay.delayTime.setTargetAtTime(preDelay, this.ctx.currentTime, 0.05);
+    this.reverbGain.gain.setTargetAtTime(settings.reverb, this.ctx.currentTime, 0.05);
+    this.dryGain.gain.setTargetAtTime(1 - settings.reverb * 0.5, this.ctx.currentTime, 0.05);
+  }
+
+  private updatePerformance(settings: SynthSettings) {
+    if (!this.ctx || !this.bendSource || !this.pressureSource || !this.modLfo || !this.vibratoGain || !this.filterLfoGain) return;
+    const perf = settings.performance;
+    const now = this.ctx.currentTime;
+    const pressure = this.pressure * perf.pressureAmount;
+    const vibratoAmount = Math.min(1, this.modWheel + (perf.pressureTarget === 'vibrato' ? pressure : 0));
+
+    this.bendSource.offset.setTargetAtTime(this.pitchBend * perf.bendRange * 100, now, 0.01);
+    this.modLfo.frequency.setTargetAtTime(perf.vibratoRate, now, 0.05);
+    this.vibratoGain.gain.setTargetAtTime(vibratoAmount * perf.vibratoDepth, now, 0.02);
+    this.filterLfoGain.gain.setTargetAtTime(this.modWheel * perf.modFilterDepth * 1200, now, 0.02);
+    this.pressureSource.offset.setTargetAtTime(perf.pressureTarget === 'filter' ? pressure * 2400 : 0, now, 0.02);
+  }
+
+  private lfoTarget(destination: LfoDestination): AudioNode | AudioParam | null {
+    switch (destination) {
+      case 'pitch': return this.pitchModBus;
+      case 'filter': return this.filterModBus;
+      case 'amp': return this.tremolo?.gain ?? null;
+      case 'pan': return this.autoPan?.pan ?? null;
+      case 'delay': return this.delay?.delayTime ?? null;
+    }
+  }
+
+  private lfoRate(lfo: LfoSettings): number {
+    return lfo.sync ? this.tempo / 60 / Math.max(lfo.division, 0.0625) : lfo.rate;
+  }
+
+  private updateLfos(settings: SynthSettings) {
+    if (!this.ctx || !this.tremolo) return;
+    const now = this.ctx.currentTime;
+    const patchLfos = [settings.lfo1, settings.lfo2];
+    let tremoloDepth = 0;
+
+    this.lfos.forEach((chain, i) => {
+      const lfo = patchLfos[i];
+      if (chain.destination !== lfo.destination) {
+        if (chain.destination) chain.depth.disconnect();
+        const target = this.lfoTarget(lfo.destination);
+        if (target instanceof AudioParam) chain.depth.connect(target);
+        else if (target) chain.depth.connect(target);
+        chain.destination = lfo.destination;
+      }
+      if (chain.osc.type !== lfo.waveform) chain.osc.type = lfo.waveform;
+      chain.osc.frequency.setTargetAtTime(this.lfoRate(lfo), now, 0.02);
+      chain.depth.gain.setTargetAtTime(lfo.depth * LFO_RANGES[lfo.destination], now, 0.02);
+      if (lfo.destination === 'amp') tremoloDepth += lfo.depth * LFO_RANGES.amp;
+    });
+
+    // Tremolo swings around a lowered base so the peaks never exceed unity
+    this.tremolo.gain.setTargetAtTime(1 - Math.min(0.5, tremoloDepth), now, 0.02);
+  }
+
+  // Key-retriggered LFOs restart from phase zero on every note-on
+  private retriggerLfos(settings: SynthSettings, time: number) {
+    if (!this.ctx) return;
+    const patchLfos = [settings.lfo1, settings.lfo2];
+    this.lfos.forEach((chain, i) => {
+      const lfo = patchLfos[i];
+      if (!lfo.retrigger) return;
+      const osc = this.ctx!.createOscillator();
+      osc.type = lfo.waveform;
+      osc.frequency.value = this.lfoRate(lfo);
+      osc.connect(chain.depth);
+      osc.start(time);
+      const previous = chain.osc;
+      previous.stop(time);
+      previous.onended = () => previous.disconnect();
+      chain.osc = osc;
+      this.lfoOrigins[i] = time;
+    });
+  }
+
+  public setTempo(bpm: number, settings: SynthSettings) {
+    this.tempo = Math.max(20, Math.min(300, bpm));
+    this.updateLfos(settings);
+  }
+
+  // value is -1 to 1, scaled by the patch's bend range
+  public setPitchBend(value: number, settings: SynthSettings) {
+    this.pitchBend = Math.max(-1, Math.min(1, value));
+    this.updatePerformance(settings);
+  }
+
+  public setModWheel(value: number, settings: SynthSettings) {
+    this.modWheel = Math.max(0, Math.min(1, value));
+    this.applyControllers(settings);
+  }
+
+  public setPressure(value: number, settings: SynthSettings) {
+    this.pressure = Math.max(0, Math.min(1, value));
+    this.applyControllers(settings);
+  }
+
+  // Controllers are matrix sources too. With nothing sounding the mod timer is stopped, so a
+  // controller move re-applies the matrix to the shared effects itself.
+  private applyControllers(settings: SynthSettings) {
+    const modulated = this.modulate(settings);
+    this.applyEffects(modulated);
+    this.updatePerformance(modulated);
+  }
+
+  public setSustain(down: boolean, settings: SynthSettings) {
+    this.sustainDown = down;
+    if (down) return;
+    const held = Array.from(this.sustainedNotes);
+    this.sustainedNotes.clear();
+    held.forEach(label => this.stopNote(label, settings));
+  }
+
+  // Runs an action at a context time. Offline renders outrun the wall clock, so there the
+  // renderer steps the engine forward with advance() instead of relying on timers.
+  private defer(at: number, action: () => void) {
+    if (!this.ctx) return;
+    if (this.offline) {
+      this.deferred.push({ at, action });
+      return;
+    }
+    setTimeout(action, Math.max(0, (at - this.ctx.currentTime) * 1000));
+  }
+
+  public advance() {
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    const due = this.deferred.filter(d => d.at <= now);
+    this.deferred = this.deferred.filter(d => d.at > now);
+    due.forEach(d => d.action());
+    if (this.baseSettings && this.baseSettings.modMatrix.length > 0) {
+      this.applySettings(this.modulate(this.baseSettings));
+    }
+    this.syncModTimer();
+  }
+
+  private disposeVoice(voice: Voice) {
+    this.voices = this.voices.filter(v => v !== voice);
+    if (this.monoVoice === voice) this.monoVoice = null;
+    voice.oscs.forEach(({ osc, level, spread }) => {
+      try {
+        osc.stop();
+        osc.disconnect();
+        level.disconnect();
+        spread.disconnect();
+        this.pitchModBus?.disconnect(osc.detune);
+      } catch (e) {}
+    });
+    try {
+      voice.noise?.stop();
+      voice.noise?.disconnect();
+      voice.noiseLevel?.disconnect();
+      voice.filters.forEach(f => {
+        f.disconnect();
+        this.filterModBus?.disconnect(f.detune);
+      });
+      voice.gain.disconnect();
+      voice.panner.disconnect();
+    } catch (e) {}
+  }
+
+  private detachVoice(voice: Voice) {
+    if (voice.label !== null && this.activeNotes.get(voice.label) === voice) {
+      this.activeNotes.delete(voice.label);
+      this.sustainedNotes.delete(voice.label);
+    }
+    voice.label = null;
+  }
+
+  private holdParam(param: AudioParam, time: number) {
+    if (typeof param.cancelAndHoldAtTime === 'function') {
+      param.cancelAndHoldAtTime(time);
+    } else {
+      param.cancelScheduledValues(time);
+      param.setValueAtTime(param.value, time);
+    }
+  }
+
+  private releaseVoice(voice: Voice, time: number, settings: SynthSettings) {
+    if (!this.ctx) return;
+    this.detachVoice(voice);
+
+    // A voice cancelled before its scheduled start never needs a release phase
+    if (voice.startTime > time) {
+      this.disposeVoice(voice);
+      return;
+    }
+
+    voice.releaseTime = time;
+    this.holdParam(voice.gain.gain, time);
+    voice.gain.gain.exponentialRampToValueAtTime(0.001, time + settings.envelope.release);
+    voice.filters.forEach(f => {
+      this.holdParam(f.detune, time);
+      f.detune.linearRampToValueAtTime(0, time + settings.filterEnvelope.release);
+    });
+    this.defer(time + settings.envelope.release + 0.1, () => this.disposeVoice(voice));
+  }
+
+  // Fades a voice out within a few milliseconds so its slot can be reused immediately
+  private stealVoice(voice: Voice, time: number) {
+    if (!this.ctx) return;
+    this.detachVoice(voice);
+    this.voices = this.voices.filter(v => v !== voice);
+
+    voice.releaseTime = time;
+    this.holdParam(voice.gain.gain, time);
+    voice.gain.gain.linearRampToValueAtTime(0, time + STEAL_FADE);
+    this.defer(time + STEAL_FADE + 0.02, () => this.disposeVoice(voice));
+  }
+
+  private glideTo(voice: Voice, freq: number, time: number, settings: SynthSettings) {
+    voice.oscs.forEach(({ osc }) => {
+      this.holdParam(osc.frequency, time);
+      if (settings.glide && settings.glideSpeed > 0) {
+        osc.frequency.exponentialRampToValueAtTime(freq, time + Math.max(settings.glideSpeed, 0.005));
+      } else {
+        osc.frequency.setValueAtTime(freq, time);
+      }
+    });
+    voice.frequency = freq;
+  }
+
+  private rebindVoice(voice: Voice, label: string) {
+    if (voice.label !== null && this.activeNotes.get(voice.label) === voice) this.activeNotes.delete(voice.label);
+    voice.label = label;
+    this.activeNotes.set(label, voice);
+  }
+
+  private voiceCutoff(freq: number, velocityFactor: number, settings: SynthSettings): number {
+    const keyTrack = Math.pow(freq / KEY_TRACK_CENTER, settings.filter.keyTrack);
+    return Math.min(20000, Math.max(20, settings.filter.frequency * keyTrack * velocityFactor));
+  }
+
+  // In a 24 dB cascade only the last stage resonates for low/high pass, otherwise the peak would be squared
+  private shapeFilterStages(filters: BiquadFilterNode[], settings: SynthSettings, time: number) {
+    const type = settings.filter.type;
+    const cascadedPass = filters.length > 1 && (type === 'lowpass' || type === 'highpass');
+    filters.forEach((f, i) => {
+      if (f.type !== type) f.type = type;
+      const q = cascadedPass && i < filters.length - 1 ? Math.SQRT1_2 : settings.filter.resonance;
+      f.Q.setTargetAtTime(q, time, 0.05);
+      f.gain.setTargetAtTime(type === 'peaking' ? PEAKING_GAIN : 0, time, 0.05);
     });
   }
 
@@ -63,78 +539,271 @@ class AudioEngine {
     return (normalized * 2 - 1) * stereoWidth;
   }
 
-  public playNote(freq: number, label: string, settings: SynthSettings) {
-    if (!this.ctx || !this.filter) this.init();
-    if (!this.ctx || !this.filter) return;
+  // Clamps a requested start time so notes scheduled slightly late still play immediately
+  private resolveTime(when?: number): number {
+    const now = this.ctx ? this.ctx.currentTime : 0;
+    return when !== undefined ? Math.max(when, now) : now;
+  }
 
-    if (this.activeNotes.has(label)) {
-      this.stopNote(label, settings);
+  public playNote(freq: number, label: string, settings: SynthSettings, options: PlayNoteOptions = {}) {
+    if (!this.ctx || !this.voiceBus) {
+      this.init();
+      this.updateSettings(settings);
     }
+    if (!this.ctx || !this.voiceBus) return;
+    const tuned = tuning.retune(freq);
+    if (tuned === null) return;
+    freq = tuned;
 
-    const osc = this.ctx.createOscillator();
-    const noteGain = this.ctx.createGain();
-    const panner = this.ctx.createStereoPanner();
+    const now = this.resolveTime(options.time);
+    const velocity = options.velocity ?? 1;
+    // Snapshot notes bring their own patch, so they leave the live LFOs and mod sources alone.
+    // Only the voice itself is theirs: pitch bend, vibrato, the two patch LFOs, delay, reverb and
+    // master gain are shared buses that follow the live patch, and in mono or legato mode a
+    // snapshot note plays on the single mono voice, taking it over from (or handing it to) live input.
+    if (!options.snapshot) {
+      this.retriggerLfos(settings, now);
+      this.lastVelocity = velocity;
+      this.lastNoteOn = now;
+      this.lastRelease = null;
+      settings = this.modulate(settings);
+    }
+    const { voiceMode, maxVoices, stealMode } = settings.polyphony;
 
-    osc.type = settings.waveform;
-    
-    const now = this.ctx.currentTime;
-    
-    // Optimized Glide / Portamento Implementation
-    if (settings.glide && this.lastFrequency && this.lastFrequency > 0 && this.lastFrequency !== freq && settings.glideSpeed > 0) {
-      // Use a small safety buffer for time to ensure precision in the Web Audio scheduling
-      const startTime = now + 0.002; 
-      const duration = Math.max(settings.glideSpeed, 0.005); // Enforce 5ms min to prevent sharp transients/pops
-      
-      osc.frequency.setValueAtTime(this.lastFrequency, now);
-      osc.frequency.setValueAtTime(this.lastFrequency, startTime);
-      osc.frequency.exponentialRampToValueAtTime(freq, startTime + duration);
-    } else {
-      osc.frequency.setValueAtTime(freq, now);
+    if (voiceMode !== 'poly') {
+      this.playMonoNote(freq, label, settings, velocity, now, options);
+      return;
+    }
+
+    const existing = this.activeNotes.get(label);
+    if (existing) {
+      if (stealMode === 'same-note') this.stealVoice(existing, now);
+      else this.releaseVoice(existing, now, settings);
+    }
+
+    // Poly glide starts from whichever voice was triggered most recently
+    const previous = this.voices[this.voices.length - 1];
+    while (this.voices.length >= Math.max(1, Math.round(maxVoices))) {
+      const victim = pickVoiceToSteal(this.voices, stealMode, freq);
+      if (!victim) break;
+      this.stealVoice(victim, now);
+    }
+
+    this.createVoice(freq, label, settings, velocity, now, settings.glide && previous ? previous.frequency : null, options);
+  }
+
+  private playMonoNote(freq: number, label: string, settings: SynthSettings, velocity: number, now: number, options: PlayNoteOptions) {
+    this.monoStack = this.monoStack.filter(n => n.label !== label);
+    this.monoStack.push({ label, frequency: freq });
+
+    const voice = this.monoVoice;
+    // Overlapping notes in legato mode move the pitch without restarting the envelope
+    if (voice && voice.releaseTime === null && settings.polyphony.voiceMode === 'legato') {
+      this.glideTo(voice, freq, now, settings);
+      this.rebindVoice(voice, label);
+      return;
+    }
+
+    const glideFrom = voice && settings.glide ? voice.frequency : null;
+    if (voice) this.stealVoice(voice, now);
+    this.monoVoice = this.createVoice(freq, label, settings, velocity, now, glideFrom, options);
+  }
+
+  // Lays out the oscillators of one voice: the main and second oscillator (each multiplied by unison), plus the sub
+  private describeOscillators(settings: SynthSettings): { type: WaveformType; offset: number; level: number; pan: number }[] {
+    const count = Math.max(1, Math.round(settings.unison.voices));
+    const layers: { type: WaveformType; offset: number; level: number; pan: number }[] = [];
+
+    for (let i = 0; i < count; i++) {
+      // Spread copies evenly from -1 to 1 so the stack stays centred in pitch and in the stereo field
+      const position = count === 1 ? 0 : (i / (count - 1)) * 2 - 1;
+      const detune = position * settings.unison.detune / 2;
+      const pan = position * settings.stereoWidth;
+      const unisonLevel = 1 / Math.sqrt(count);
+
+      layers.push({ type: settings.waveform, offset: detune, level: unisonLevel, pan });
+      if (settings.osc2.level > 0) {
+        const interval = settings.osc2.octave * 1200 + settings.osc2.semitone * 100;
+        layers.push({ type: settings.osc2.waveform, offset: interval + detune, level: settings.osc2.level * unisonLevel, pan });
+      }
+    }
+
+    if (settings.sub.level > 0) {
+      layers.push({ type: 'sine', offset: -1200 * Math.max(1, Math.round(settings.sub.octave)), level: settings.sub.level, pan: 0 });
+    }
+    return layers;
+  }
+
+  private createVoice(freq: number, label: string, settings: SynthSettings, velocity: number, now: number, glideFrom: number | null, options: PlayNoteOptions): Voice {
+    const ctx = this.ctx!;
+    const noteGain = ctx.createGain();
+    const filters = Array.from({ length: settings.filter.slope === 24 ? 2 : 1 }, () => ctx.createBiquadFilter());
+    const filter = filters[0];
+    const panner = ctx.createStereoPanner();
+    const baseDetune = settings.detune + (settings.masterTune || 0);
+
+    const oscs: VoiceOscillator[] = this.describeOscillators(settings).map(({ type, offset, level, pan }) => {
+      const osc = ctx.createOscillator();
+      const levelGain = ctx.createGain();
+      const spread = ctx.createStereoPanner();
+      osc.type = type;
+
+      // Optimized Glide / Portamento Implementation
+      if (glideFrom && glideFrom > 0 && glideFrom !== freq && settings.glideSpeed > 0) {
+        // Use a small safety buffer for time to ensure precision in the Web Audio scheduling
+        const startTime = now + 0.002; 
+        const duration = Math.max(settings.glideSpeed, 0.005); // Enforce 5ms min to prevent sharp transients/pops
+        
+        osc.frequency.setValueAtTime(glideFrom, now);
+        osc.frequency.setValueAtTime(glideFrom, startTime);
+        osc.frequency.exponentialRampToValueAtTime(freq, startTime + duration);
+      } else {
+        osc.frequency.setValueAtTime(freq, now);
+      }
+      osc.detune.setValueAtTime(baseDetune + offset, now);
+
+      levelGain.gain.value = level;
+      spread.pan.value = pan;
+      this.pitchModBus?.connect(osc.detune);
+      osc.connect(levelGain);
+      levelGain.connect(spread);
+      spread.connect(filter);
+      osc.start(now);
+      return { osc, level: levelGain, spread, offset };
+    });
+
+    let noise: AudioBufferSourceNode | null = null;
+    let noiseLevel: GainNode | null = null;
+    if (settings.noiseLevel > 0 && this.noiseBuffer) {
+      noise = ctx.createBufferSource();
+      noise.buffer = this.noiseBuffer;
+      noise.loop = true;
+      noiseLevel = ctx.createGain();
+      noiseLevel.gain.value = settings.noiseLevel;
+      noise.connect(noiseLevel);
+      noiseLevel.connect(filter);
+      // Random offset so simultaneous voices don't share an identical noise pattern
+      noise.start(now, Math.random() * this.noiseBuffer.duration);
     }
-    
-    // Update tracking for the next note's glide start point
-    this.lastFrequency = freq;
-    
-    osc.detune.setValueAtTime(settings.detune + (settings.masterTune || 0), this.ctx.currentTime);
     
     panner.pan.value = this.calculatePan(freq, settings.stereoWidth);
 
+    // Velocity scales the envelope peak and lowers the cutoff on softer hits
+    const { curve, ampAmount, filterAmount } = settings.velocity;
+    const shaped = applyVelocityCurve(velocity, curve);
+    const peak = (1 - ampAmount + ampAmount * shaped) * (options.gain ?? 1);
+    const velocityFactor = Math.pow(2, -filterAmount * (1 - shaped) * 4);
+
+    const cutoff = this.voiceCutoff(freq, velocityFactor, settings);
+    this.shapeFilterStages(filters, settings, now);
+
+    // The filter envelope rides on detune so it stacks with the wheel/pressure modulation bus
+    const fEnv = settings.filterEnvelope;
+    const envPeak = settings.filter.envAmount * FILTER_ENV_RANGE;
+    filters.forEach((stage, i) => {
+      stage.frequency.setValueAtTime(cutoff, now);
+      stage.detune.setValueAtTime(0, now);
+      stage.detune.linearRampToValueAtTime(envPeak, now + fEnv.attack);
+      stage.detune.linearRampToValueAtTime(envPeak * fEnv.sustain, now + fEnv.attack + fEnv.decay);
+      this.filterModBus?.connect(stage.detune);
+      if (i > 0) filters[i - 1].connect(stage);
+    });
+
+    noteGain.gain.value = 0;
     noteGain.gain.setValueAtTime(0, now);
-    noteGain.gain.linearRampToValueAtTime(1, now + settings.envelope.attack);
+    noteGain.gain.linearRampToValueAtTime(peak, now + settings.envelope.attack);
     noteGain.gain.exponentialRampToValueAtTime(
-      Math.max(settings.envelope.sustain, 0.001), 
+      Math.max(settings.envelope.sustain * peak, 0.001), 
       now + settings.envelope.attack + settings.envelope.decay
     );
 
-    osc.connect(noteGain);
+    filters[filters.length - 1].connect(noteGain);
     noteGain.connect(panner);
-    panner.connect(this.filter);
+    panner.connect(this.voiceBus!);
 
-    osc.start();
-    this.activeNotes.set(label, { osc, gain: noteGain, panner });
+    const voice: Voice = {
+      oscs, noise, noiseLevel, gain: noteGain, filters, velocityFactor, panner, label,
+      followsPatch: !options.snapshot,
+      frequency: freq,
+      startTime: now,
+      releaseTime: null,
+      level: () => noteGain.gain.value,
+    };
+    this.voices.push(voice);
+    this.syncModTimer();
+    this.activeNotes.set(label, voice);
+    return voice;
   }
 
-  public stopNote(label: string, settings: SynthSettings) {
-    const note = this.activeNotes.get(label);
-    if (!note || !this.ctx) return;
+  // Live releases (no time given) are held while the sustain pedal is down; scheduled ones are not
+  public stopNote(label: string, settings: SynthSettings, when?: number) {
+    if (!this.ctx) return;
+    const voice = this.activeNotes.get(label);
+    const isMonoNote = this.monoStack.some(n => n.label === label);
+    if (!voice && !isMonoNote) return;
 
-    const { osc, gain, panner } = note;
-    const now = this.ctx.currentTime;
+    if (this.sustainDown && when === undefined) {
+      this.sustainedNotes.add(label);
+      return;
+    }
 
-    gain.gain.cancelScheduledValues(now);
-    gain.gain.setValueAtTime(gain.gain.value, now);
-    gain.gain.exponentialRampToValueAtTime(0.001, now + settings.envelope.release);
+    const now = this.resolveTime(when);
+    this.sustainedNotes.delete(label);
 
-    setTimeout(() => {
-      try {
-        osc.stop();
-        osc.disconnect();
-        gain.disconnect();
-        panner.disconnect();
-      } catch (e) {}
-    }, settings.envelope.release * 1000 + 100);
+    if (isMonoNote) {
+      this.stopMonoNote(label, settings, now);
+    } else if (voice) {
+      this.releaseVoice(voice, now, settings);
+    }
+    if (this.activeNotes.size === 0) this.lastRelease = now;
+  }
+
+  private stopMonoNote(label: string, settings: SynthSettings, now: number) {
+    this.monoStack = this.monoStack.filter(n => n.label !== label);
+    const voice = this.monoVoice;
+    if (!voice || voice.label !== label) return;
+
+    // Fall back to the most recent note still held, like a classic mono synth
+    const fallback = this.monoStack[this.monoStack.length - 1];
+    if (fallback) {
+      this.glideTo(voice, fallback.frequency, now, settings);
+      this.rebindVoice(voice, fallback.label);
+      return;
+    }
+    this.releaseVoice(voice, now, settings);
+  }
 
-    this.activeNotes.delete(label);
+  // Metronome clicks go straight to the speakers, bypassing the patch, effects and recording tap
+  public playClick(time: number, accent: boolean) {
+    this.init();
+    if (!this.ctx) return;
+    const start = this.resolveTime(time);
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.value = accent ? CLICK_ACCENT_FREQ : CLICK_FREQ;
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(accent ? 0.5 : 0.3, start + 0.001);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + CLICK_LENGTH);
+    osc.connect(gain);
+    gain.connect(this.ctx.destination);
+    osc.start(start);
+    osc.stop(start + CLICK_LENGTH + 0.01);
+    osc.onended = () => {
+      osc.disconnect();
+      gain.disconnect();
+    };
+  }
+
+  // Taps the analyser so recordings capture exactly what reaches the speakers
+  public getRecordingStream(): MediaStream | null {
+    this.init();
+    if (!(this.ctx instanceof AudioContext) || !this.analyzer) return null;
+    if (!this.recordTap) {
+      this.recordTap = this.ctx.createMediaStreamDestination();
+      this.analyzer.connect(this.recordTap);
+    }
+    return this.recordTap.stream;
   }
 
   public getAnalyzer() { return this.analyzer; }
@@ -0,0 +1,31 @@
+import { RecordedLoop, SynthSettings, StoredPreset, NoteEvent } from '../types';
+import { mergeSettings } from '../constants';
+import { DEFAULT_GATE_MS } from './scheduler';
+
+// The patch a loop carries with it: its preset if that preset still exists, otherwise its
+// snapshot. Null means the loop follows the live patch.
+export const resolveLoopPatch = (loop: RecordedLoop, presets: StoredPreset[]): SynthSettings | null => {
+  const preset = loop.presetId ? presets.find(p => p.id === loop.presetId) : undefined;
+  if (preset) return mergeSettings(preset.settings);
+  if (loop.snapshot) return mergeSettings(loop.snapshot);
+  return null;
+};
+
+// Events and length as heard: transpose shifts every pitch, rate compresses or stretches time
+export const loopPlaybackCycle = (loop: RecordedLoop): { events: NoteEvent[]; duration: number } => {
+  const rate = loop.rate && loop.rate > 0 ? loop.rate : 1;
+  const ratio = Math.pow(2, (loop.transpose ?? 0) / 12);
+  return {
+    events: loop.events.map(e => ({
+      ...e,
+      frequency: e.frequency * ratio,
+      timestamp: e.timestamp / rate,
+      duration: e.duration === undefined ? undefined : e.duration / rate,
+    })),
+    duration: loop.duration / rate,
+  };
+};
+
+// A backward pass: reversed notes begin where they used to be released
+export const reverseCycle = (events: NoteEvent[], duration: number): NoteEvent[] =>
+  events.map(e => ({ ...e, timestamp: Math.max(0, duration - e.timestamp - (e.duration ?? DEFAULT_GATE_MS)) }));
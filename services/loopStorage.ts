@@ -0,0 +1,62 @@
+import { RecordedLoop } from '../types';
+
+const DB_NAME = 'gemini_synth_loops';
+const DB_VERSION = 1;
+const LOOP_STORE = 'loops';
+
+interface StoredLoop extends RecordedLoop {
+  order: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Each case upgrades from the previous schema version, so they intentionally fall through
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      switch (event.oldVersion) {
+        case 0:
+          db.createObjectStore(LOOP_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const completeTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const loadLoops = async (): Promise<RecordedLoop[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LOOP_STORE, 'readonly');
+  const request = tx.objectStore(LOOP_STORE).getAll();
+  await completeTransaction(tx);
+  return (request.result as StoredLoop[])
+    .sort((a, b) => a.order - b.order)
+    .map(({ order, ...loop }) => loop);
+};
+
+// Replaces the stored set wholesale so disk always mirrors the current (possibly undone) state
+export const saveLoops = async (loops: RecordedLoop[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LOOP_STORE, 'readwrite');
+  const store = tx.objectStore(LOOP_STORE);
+  store.clear();
+  loops.forEach((loop, order) => store.put({ ...loop, order } as StoredLoop));
+  await completeTransaction(tx);
+};
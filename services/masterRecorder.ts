@@ -0,0 +1,53 @@
+import { audioEngine } from './audioEngine';
+
+// Browsers disagree on what MediaRecorder can produce, so take the first one on offer
+const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+export interface CapturedAudio {
+  blob: Blob;
+  duration: number; // ms
+}
+
+class MasterRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+
+  public isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  public start(): boolean {
+    if (this.recorder) return true;
+    if (typeof MediaRecorder === 'undefined') return false;
+    const stream = audioEngine.getRecordingStream();
+    if (!stream) return false;
+
+    const mimeType = PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    this.chunks = chunks;
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    this.recorder.start();
+    this.startedAt = performance.now();
+    return true;
+  }
+
+  // Resolves once the final chunk has been flushed, or with null if nothing was recording
+  public stop(): Promise<CapturedAudio | null> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve(null);
+    const chunks = this.chunks;
+    this.recorder = null;
+    const duration = performance.now() - this.startedAt;
+
+    return new Promise(resolve => {
+      recorder.onstop = () => resolve({ blob: new Blob(chunks, { type: recorder.mimeType }), duration });
+      recorder.stop();
+    });
+  }
+}
+
+export const masterRecorder = new MasterRecorder();
@@ -0,0 +1,62 @@
+import { TransportSettings, NoteEvent } from '../types';
+import { DEFAULT_TRANSPORT } from '../constants';
+import { scheduler } from './scheduler';
+import { audioEngine } from './audioEngine';
+
+const METRONOME_TRACK = 'metronome';
+const ACCENT = 'ACCENT';
+
+// One beat in ms. The tempo counts quarter notes, so eighth-note meters click twice as fast.
+export const beatDuration = (transport: TransportSettings): number =>
+  (60000 / transport.bpm) * (4 / transport.beatUnit);
+
+export const barDuration = (transport: TransportSettings): number =>
+  beatDuration(transport) * transport.beatsPerBar;
+
+// Rounds a length to the nearest whole number of bars, never less than one
+export const snapToBars = (duration: number, transport: TransportSettings): number => {
+  const bar = barDuration(transport);
+  return Math.max(1, Math.round(duration / bar)) * bar;
+};
+
+class Metronome {
+  private transport: TransportSettings = DEFAULT_TRANSPORT;
+
+  // Tempo and meter changes take effect from the next bar
+  public setTransport(transport: TransportSettings) {
+    this.transport = transport;
+  }
+
+  // Starts clicking on the downbeat at startTime (audio clock). With a bar count it stops by
+  // itself afterwards, which is how a count-in runs without the continuous click.
+  public start(startTime?: number, bars: number | null = null): number {
+    const start = startTime ?? scheduler.now() + 0.05;
+    scheduler.add(METRONOME_TRACK, {
+      getCycle: (index) => {
+        if (bars !== null && index >= bars) return null;
+        const beat = beatDuration(this.transport);
+        const events: NoteEvent[] = Array.from({ length: this.transport.beatsPerBar }, (_, i) => ({
+          note: i === 0 ? ACCENT : 'BEAT',
+          frequency: 0,
+          startTime: 0,
+          timestamp: i * beat,
+          duration: 0,
+        }));
+        return { events, duration: beat * this.transport.beatsPerBar };
+      },
+      onNoteOn: (event, _voiceId, time) => audioEngine.playClick(time, event.note === ACCENT),
+      onNoteOff: () => {},
+    }, start);
+    return start;
+  }
+
+  public stop() {
+    scheduler.remove(METRONOME_TRACK);
+  }
+
+  public isRunning(): boolean {
+    return scheduler.isPlaying(METRONOME_TRACK);
+  }
+}
+
+export const metronome = new Metronome();
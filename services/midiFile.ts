@@ -0,0 +1,242 @@
+import { RecordedLoop, NoteEvent, MidiFileFormat } from '../types';
+import { getNoteLabel, midiNoteToFrequency, frequencyToMidiNote } from '../constants';
+import { DEFAULT_GATE_MS } from './scheduler';
+import { loopPlaybackCycle } from './loopPlayback';
+
+// Ticks per quarter note written on export
+export const PPQ = 480;
+const DEFAULT_TEMPO = 500000; // microseconds per quarter, 120 BPM
+
+interface TimedMessage {
+  tick: number;
+  data: number[];
+}
+
+interface TempoChange {
+  tick: number;
+  usPerQuarter: number;
+}
+
+export interface MidiExportOptions {
+  format: MidiFileFormat;
+  bpm: number;
+  beatsPerBar?: number;
+  beatUnit?: number;
+}
+
+const writeVarLen = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+};
+
+const writeUint = (value: number, size: number): number[] =>
+  Array.from({ length: size }, (_, i) => (value >> (8 * (size - 1 - i))) & 0xff);
+
+const textBytes = (text: string): number[] => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (type: number, data: number[]): number[] => [0xff, type, ...writeVarLen(data.length), ...data];
+
+const chunk = (id: string, body: number[]): number[] => [...textBytes(id), ...writeUint(body.length, 4), ...body];
+
+// Meta events lead each tick so tempo and names apply before any note
+const messageOrder = (data: number[]): number => data[0] === 0xff ? -1 : data[0] & 0xf0;
+
+// Serialises messages into an MTrk chunk with delta times. Note-offs sort ahead of note-ons on
+// the same tick so a repeated pitch is not cut off by its own previous release.
+const buildTrack = (messages: TimedMessage[], endTick: number): number[] => {
+  const sorted = [...messages].sort((a, b) => a.tick - b.tick || messageOrder(a.data) - messageOrder(b.data));
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(({ tick, data }) => {
+    body.push(...writeVarLen(tick - lastTick), ...data);
+    lastTick = tick;
+  });
+  body.push(...writeVarLen(Math.max(0, endTick - lastTick)), ...metaEvent(0x2f, []));
+  return chunk('MTrk', body);
+};
+
+// Tempo plus time signature; the signature's denominator is stored as a power of two
+const tempoMessages = ({ bpm, beatsPerBar = 4, beatUnit = 4 }: MidiExportOptions): TimedMessage[] => [
+  { tick: 0, data: metaEvent(0x51, writeUint(Math.round(60000000 / bpm), 3)) },
+  { tick: 0, data: metaEvent(0x58, [beatsPerBar, Math.round(Math.log2(beatUnit)), 24, 8]) },
+];
+
+const loopMessages = (loop: RecordedLoop, msToTicks: (ms: number) => number): TimedMessage[] => {
+  const messages: TimedMessage[] = [{ tick: 0, data: metaEvent(0x03, textBytes(loop.name)) }];
+  loop.events.forEach(event => {
+    const note = Math.min(127, Math.max(0, frequencyToMidiNote(event.frequency)));
+    const velocity = Math.min(127, Math.max(1, Math.round((event.velocity ?? 1) * 127)));
+    const start = msToTicks(event.timestamp);
+    const end = Math.max(start + 1, msToTicks(event.timestamp + (event.duration ?? DEFAULT_GATE_MS)));
+    messages.push({ tick: start, data: [0x90, note, velocity] });
+    messages.push({ tick: end, data: [0x80, note, 0] });
+  });
+  return messages;
+};
+
+// Type 0 merges everything into one track; type 1 writes a tempo track followed by one track per loop.
+// Loops are written as they are heard, with their transpose and rate applied.
+export const encodeMidiFile = (recorded: RecordedLoop[], options: MidiExportOptions): Uint8Array => {
+  const { format, bpm } = options;
+  const loops = recorded.map(loop => ({ ...loop, ...loopPlaybackCycle(loop) }));
+  const msToTicks = (ms: number) => Math.round((ms / (60000 / bpm)) * PPQ);
+  const endTick = Math.max(0, ...loops.map(l => msToTicks(l.duration)));
+
+  const tracks = format === 0
+    ? [buildTrack([...tempoMessages(options), ...loops.flatMap(l => loopMessages(l, msToTicks))], endTick)]
+    : [buildTrack(tempoMessages(options), 0), ...loops.map(l => buildTrack(loopMessages(l, msToTicks), msToTicks(l.duration)))];
+
+  const header = chunk('MThd', [...writeUint(format, 2), ...writeUint(tracks.length, 2), ...writeUint(PPQ, 2)]);
+  return new Uint8Array([...header, ...tracks.flat()]);
+};
+
+class MidiReader {
+  private pos = 0;
+  constructor(private view: DataView) {}
+
+  get offset() { return this.pos; }
+  set offset(value: number) { this.pos = value; }
+  get remaining() { return this.view.byteLength - this.pos; }
+
+  uint8() { return this.view.getUint8(this.pos++); }
+  uint16() { const v = this.view.getUint16(this.pos); this.pos += 2; return v; }
+  uint32() { const v = this.view.getUint32(this.pos); this.pos += 4; return v; }
+  text(length: number) { return Array.from({ length }, () => String.fromCharCode(this.uint8())).join(''); }
+
+  varLen() {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  }
+}
+
+interface RawNote {
+  tick: number;
+  endTick: number | null;
+  note: number;
+  velocity: number;
+}
+
+// Reads type 0 and 1 files into a single loop. All tracks and channels are merged and the
+// tempo map is honoured, so tempo changes inside the file land at the right millisecond.
+export const parseMidiFile = (buffer: ArrayBuffer, name: string): RecordedLoop => {
+  const reader = new MidiReader(new DataView(buffer));
+  if (reader.text(4) !== 'MThd') throw new Error('Not a Standard MIDI File');
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.offset = 8 + headerLength;
+  if (format > 1) throw new Error(`MIDI format ${format} is not supported`);
+  if (division & 0x8000) throw new Error('SMPTE time division is not supported');
+
+  const notes: RawNote[] = [];
+  const tempos: TempoChange[] = [];
+  let lastTick = 0;
+
+  for (let track = 0; track < trackCount && reader.remaining >= 8; track++) {
+    const id = reader.text(4);
+    const length = reader.uint32();
+    const end = reader.offset + length;
+    if (id !== 'MTrk') {
+      reader.offset = end;
+      track--;
+      continue;
+    }
+
+    const open = new Map<string, RawNote[]>();
+    let tick = 0;
+    let status = 0;
+
+    while (reader.offset < end) {
+      tick += reader.varLen();
+      let byte = reader.uint8();
+      // Running status: data byte reuses the previous channel status
+      if (byte < 0x80) {
+        reader.offset--;
+        byte = status;
+      } else if (byte < 0xf0) {
+        status = byte;
+      }
+
+      if (byte === 0xff) {
+        const type = reader.uint8();
+        const metaLength = reader.varLen();
+        if (type === 0x51 && metaLength === 3) {
+          tempos.push({ tick, usPerQuarter: (reader.uint8() << 16) | (reader.uint8() << 8) | reader.uint8() });
+        } else {
+          reader.offset += metaLength;
+        }
+        continue;
+      }
+      if (byte === 0xf0 || byte === 0xf7) {
+        reader.offset += reader.varLen();
+        continue;
+      }
+
+      const command = byte & 0xf0;
+      const channel = byte & 0x0f;
+      const data1 = reader.uint8();
+      const data2 = command === 0xc0 || command === 0xd0 ? 0 : reader.uint8();
+      const key = `${channel}:${data1}`;
+
+      if (command === 0x90 && data2 > 0) {
+        const note: RawNote = { tick, endTick: null, note: data1, velocity: data2 / 127 };
+        notes.push(note);
+        open.set(key, [...(open.get(key) || []), note]);
+      } else if (command === 0x80 || command === 0x90) {
+        const pending = open.get(key);
+        const note = pending?.shift();
+        if (note) note.endTick = tick;
+      }
+    }
+
+    reader.offset = end;
+    lastTick = Math.max(lastTick, tick);
+  }
+
+  const tempoMap = tempos.sort((a, b) => a.tick - b.tick);
+  const ticksToMs = (target: number): number => {
+    let ms = 0;
+    let tick = 0;
+    let usPerQuarter = DEFAULT_TEMPO;
+    for (const change of tempoMap) {
+      if (change.tick >= target) break;
+      ms += ((change.tick - tick) / division) * (usPerQuarter / 1000);
+      tick = change.tick;
+      usPerQuarter = change.usPerQuarter;
+    }
+    return ms + ((target - tick) / division) * (usPerQuarter / 1000);
+  };
+
+  const events: NoteEvent[] = notes
+    .sort((a, b) => a.tick - b.tick)
+    .map(n => {
+      const timestamp = ticksToMs(n.tick);
+      // Notes never released in the file are held to the end of the track
+      const end = ticksToMs(n.endTick ?? lastTick);
+      return {
+        note: getNoteLabel(n.note),
+        frequency: midiNoteToFrequency(n.note),
+        velocity: n.velocity,
+        startTime: Date.now(),
+        duration: Math.max(0, end - timestamp),
+        timestamp,
+      };
+    });
+
+  const duration = Math.max(ticksToMs(lastTick), ...events.map(e => e.timestamp + (e.duration ?? 0)));
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    events,
+    duration,
+    mode: 'repeat',
+  };
+};
@@ -0,0 +1,81 @@
+import { SynthSettings, ModSource, ModSlot, EnvelopeSettings, WaveformType, MappableParam } from '../types';
+import { MAPPABLE_PARAMS } from '../constants';
+
+// Switches, selectors and counts cannot be swept continuously, so the matrix leaves them alone.
+// Stepping voice counts or octaves at control rate would re-pitch or re-voice notes every tick.
+const DISCRETE_PARAMS = ['glide', 'filter.type', 'filter.slope', 'polyphony.maxVoices', 'unison.voices', 'osc2.octave', 'osc2.semitone'];
+
+// The reverb room is an impulse response built on the main thread; rebuilding it at control rate
+// would stall the UI and click on every buffer swap, so its shape is left to the patch
+const isRoomParam = (id: string) => id.startsWith('reverbParams.');
+
+export const MOD_DESTINATIONS: MappableParam[] = MAPPABLE_PARAMS.filter(
+  p => !DISCRETE_PARAMS.includes(p.id) && !p.id.endsWith('waveform') && !isRoomParam(p.id)
+);
+
+export type ModSourceValues = Record<ModSource, number>;
+
+// Parameter paths are a top-level setting, optionally followed by one field of a nested group
+const splitPath = (path: string): [keyof SynthSettings, string | undefined] => {
+  const [head, tail] = path.split('.');
+  return [head as keyof SynthSettings, tail];
+};
+
+const asGroup = (node: unknown): Record<string, unknown> | undefined =>
+  node !== null && typeof node === 'object' ? node as Record<string, unknown> : undefined;
+
+export const getSettingAtPath = (settings: SynthSettings, path: string): number | undefined => {
+  const [head, tail] = splitPath(path);
+  const node: unknown = settings[head];
+  const value = tail === undefined ? node : asGroup(node)?.[tail];
+  return typeof value === 'number' ? value : undefined;
+};
+
+const setSettingAtPath = (settings: SynthSettings, path: string, value: number): SynthSettings => {
+  const [head, tail] = splitPath(path);
+  if (tail === undefined) return { ...settings, [head]: value };
+  return { ...settings, [head]: { ...asGroup(settings[head]), [tail]: value } };
+};
+
+// Applies every slot on top of the stored patch. Amounts are -1 to 1 of the destination's full range
+// and slots aimed at the same destination add up before clamping.
+export const applyModMatrix = (settings: SynthSettings, sources: ModSourceValues): SynthSettings => {
+  if (!settings.modMatrix || settings.modMatrix.length === 0) return settings;
+
+  const offsets: Record<string, number> = {};
+  settings.modMatrix.forEach(slot => {
+    const param = MOD_DESTINATIONS.find(p => p.id === slot.destination);
+    if (!param || slot.amount === 0) return;
+    offsets[param.id] = (offsets[param.id] || 0) + sources[slot.source] * slot.amount * (param.max - param.min);
+  });
+
+  return Object.entries(offsets).reduce((next, [path, offset]) => {
+    const param = MOD_DESTINATIONS.find(p => p.id === path)!;
+    const base = getSettingAtPath(next, path);
+    if (base === undefined) return next;
+    return setSettingAtPath(next, path, Math.min(param.max, Math.max(param.min, base + offset)));
+  }, settings);
+};
+
+// Control-rate mirror of an ADSR for the most recent note, 0-1
+export const envelopeLevel = (env: EnvelopeSettings, elapsed: number, releasedFor: number | null): number => {
+  const held = (t: number) => {
+    if (t < env.attack) return env.attack > 0 ? t / env.attack : 1;
+    if (t < env.attack + env.decay) return 1 - (1 - env.sustain) * ((t - env.attack) / env.decay);
+    return env.sustain;
+  };
+  if (releasedFor === null) return held(elapsed);
+  const start = held(Math.max(0, elapsed - releasedFor));
+  return env.release > 0 ? Math.max(0, start * (1 - releasedFor / env.release)) : 0;
+};
+
+// Bipolar (-1 to 1) value of an LFO shape at the given phase in cycles
+export const lfoShape = (waveform: WaveformType, phase: number): number => {
+  const p = phase - Math.floor(phase);
+  switch (waveform) {
+    case 'square': return p < 0.5 ? 1 : -1;
+    case 'sawtooth': return p * 2 - 1;
+    case 'triangle': return 1 - 4 * Math.abs(p - 0.5);
+    default: return Math.sin(p * Math.PI * 2);
+  }
+};
@@ -0,0 +1,27 @@
+import { NoteEvent, NoteRelease } from '../types';
+
+export interface NoteListener {
+  onNoteStart?: (event: NoteEvent) => void;
+  onNoteEnd?: (release: NoteRelease) => void;
+}
+
+// Delivers every played note-on and note-off to whoever is listening, one call per note, so a
+// chord or a burst of MIDI releases arrives complete rather than as the last item of a render
+class NoteBus {
+  private listeners: Set<NoteListener> = new Set();
+
+  public subscribe(listener: NoteListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public noteStart(event: NoteEvent) {
+    this.listeners.forEach(listener => listener.onNoteStart?.(event));
+  }
+
+  public noteEnd(release: NoteRelease) {
+    this.listeners.forEach(listener => listener.onNoteEnd?.(release));
+  }
+}
+
+export const noteBus = new NoteBus();
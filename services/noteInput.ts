@@ -0,0 +1,41 @@
+import { InputSettings } from '../types';
+import { SCALES, getNoteLabel, frequencyToMidiNote } from '../constants';
+
+export interface InputNote {
+  note: string;
+  frequency: number;
+}
+
+export const isInScale = (midiNote: number, root: number, intervals: number[]): boolean =>
+  intervals.includes((((midiNote - root) % 12) + 12) % 12);
+
+// Nearest note of the scale; a key exactly between two scale notes goes down
+export const snapToScale = (midiNote: number, settings: InputSettings): number => {
+  const intervals = SCALES[settings.scale].intervals;
+  for (let distance = 0; distance < 12; distance++) {
+    if (isInScale(midiNote - distance, settings.root, intervals)) return midiNote - distance;
+    if (isInScale(midiNote + distance, settings.root, intervals)) return midiNote + distance;
+  }
+  return midiNote;
+};
+
+// The shape of a held chord as semitones above its lowest note
+export const learnChord = (midiNotes: number[]): number[] => {
+  const sorted = Array.from(new Set(midiNotes)).sort((a, b) => a - b);
+  return sorted.map(n => n - sorted[0]);
+};
+
+// The notes one incoming key should play. Chord tones are built on the (snapped) key and then
+// snapped themselves, so a learned major triad turns diatonic under scale lock. Frequencies are
+// shifted from the incoming one rather than recomputed, keeping any tuning the source applied.
+export const processInput = (note: string, frequency: number, settings: InputSettings): InputNote[] => {
+  const played = frequencyToMidiNote(frequency);
+  const snap = (midiNote: number) => settings.scaleLock ? snapToScale(midiNote, settings) : midiNote;
+  const root = snap(played);
+  const offsets = settings.chordMemory && settings.chord.length > 0 ? settings.chord : [0];
+  const targets = Array.from(new Set(offsets.map(offset => snap(root + offset))));
+
+  return targets.map(target => target === played
+    ? { note, frequency }
+    : { note: getNoteLabel(target), frequency: frequency * Math.pow(2, (target - played) / 12) });
+};
@@ -0,0 +1,95 @@
+import { RecordedLoop, SynthSettings, StoredPreset } from '../types';
+import { AudioEngine } from './audioEngine';
+import { DEFAULT_GATE_MS } from './scheduler';
+import { resolveLoopPatch, loopPlaybackCycle, reverseCycle } from './loopPlayback';
+
+const SAMPLE_RATE = 44100;
+// OfflineAudioContext can only suspend on render quantum boundaries
+const RENDER_QUANTUM = 128;
+// How often the engine is stepped for deferred cleanup and mod matrix updates
+const CONTROL_STEP = 0.025;
+const FEEDBACK_DELAY_TIME = 0.3;
+const MAX_TAIL = 10;
+
+interface RenderStep {
+  time: number;
+  action: () => void;
+}
+
+// Extra time after the last loop so releases, delay echoes and the reverb tail ring out. Voices
+// release on their own patch's envelope, while delay and reverb always run on the live patch.
+const renderTail = (settings: SynthSettings, patches: SynthSettings[]): number => {
+  const release = Math.max(settings.envelope.release, ...patches.map(patch => patch.envelope.release));
+  const { size, decay, preDelay } = settings.reverbParams;
+  const reverbTail = settings.reverb > 0 ? Math.max(0.1, decay) * (0.4 + size * 0.8) + preDelay : 0;
+  // Time for the feedback loop to fall by 60dB
+  const feedback = Math.min(0.95, settings.delay);
+  const delayTail = feedback > 0 ? FEEDBACK_DELAY_TIME * Math.log(0.001) / Math.log(feedback) : 0;
+  return Math.min(MAX_TAIL, release + Math.max(reverbTail, delayTail) + 0.1);
+};
+
+// Mixes the loops as the looper plays a set started together: every loop begins on the first
+// downbeat and repeats (back and forth for ping-pong) until the longest has played one pass,
+// while one-shots play once. Rendering runs through a private engine bound to an
+// OfflineAudioContext, with notes dispatched from suspend points so voice allocation, mono
+// note stacks and the mod matrix see the same order of events as live playback. Each loop
+// keeps its own patch, transpose, rate and gain, exactly as the looper plays it.
+export const renderLoops = async (loops: RecordedLoop[], settings: SynthSettings, presets: StoredPreset[] = [], sampleRate = SAMPLE_RATE): Promise<AudioBuffer> => {
+  const cycles = loops.map(loopPlaybackCycle);
+  const patches = loops.map(loop => resolveLoopPatch(loop, presets));
+  const content = Math.max(0, ...cycles.map(cycle => cycle.duration)) / 1000;
+  const tail = renderTail(settings, patches.filter((patch): patch is SynthSettings => patch !== null));
+  const length = Math.max(1, Math.ceil((content + tail) * sampleRate));
+  const ctx = new OfflineAudioContext(2, length, sampleRate);
+  const engine = new AudioEngine();
+  engine.init(ctx);
+  engine.updateSettings(settings);
+
+  const steps = new Map<number, RenderStep[]>();
+  const at = (time: number, action: () => void) => {
+    const frame = Math.floor((time * sampleRate) / RENDER_QUANTUM) * RENDER_QUANTUM;
+    if (frame >= length) return;
+    if (!steps.has(frame)) steps.set(frame, []);
+    steps.get(frame)!.push({ time, action });
+  };
+
+  loops.forEach((loop, loopIndex) => {
+    const patch = patches[loopIndex];
+    const options = { gain: loop.gain ?? 1, snapshot: patch !== null };
+    const { events: forward, duration } = cycles[loopIndex];
+    if (duration <= 0) return;
+    const passes = loop.mode === 'oneshot' ? 1 : Math.ceil((content * 1000) / duration);
+    for (let pass = 0; pass < passes; pass++) {
+      const offset = (pass * duration) / 1000;
+      const events = loop.mode === 'pingpong' && pass % 2 === 1 ? reverseCycle(forward, duration) : forward;
+      events.forEach((event, eventIndex) => {
+        const start = offset + event.timestamp / 1000;
+        // The last pass of a shorter loop is cut off where the longest one ends
+        if (start >= content) return;
+        const end = start + (event.duration ?? DEFAULT_GATE_MS) / 1000;
+        const voiceId = `render:${loopIndex}:${pass}:${event.note}:${eventIndex}`;
+        at(start, () => engine.playNote(event.frequency, voiceId, patch ?? settings, { ...options, time: start, velocity: event.velocity }));
+        at(end, () => engine.stopNote(voiceId, patch ?? settings, end));
+      });
+    }
+  });
+
+  for (let time = CONTROL_STEP; time < length / sampleRate; time += CONTROL_STEP) {
+    at(time, () => engine.advance());
+  }
+
+  const runSteps = (frame: number) => {
+    steps.get(frame)!.sort((a, b) => a.time - b.time).forEach(step => step.action());
+  };
+
+  Array.from(steps.keys()).forEach(frame => {
+    if (frame === 0) return;
+    ctx.suspend(frame / sampleRate).then(() => {
+      runSteps(frame);
+      ctx.resume();
+    });
+  });
+  if (steps.has(0)) runSteps(0);
+
+  return ctx.startRendering();
+};
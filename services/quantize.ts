@@ -0,0 +1,24 @@
+import { NoteEvent, QuantizeSettings } from '../types';
+
+// Grid step in ms; triplets fit three steps in the space of two
+export const gridDuration = (bpm: number, settings: QuantizeSettings): number =>
+  (60000 / bpm) * settings.division * (settings.triplet ? 2 / 3 : 1);
+
+// Pulls note starts toward the grid by the given strength. Swing pushes every second step
+// later, and notes pulled onto the loop end wrap round to the start of the next pass.
+// Note lengths are preserved so releases move with their notes.
+export const quantizeEvents = (events: NoteEvent[], loopDuration: number, bpm: number, settings: QuantizeSettings): NoteEvent[] => {
+  const grid = gridDuration(bpm, settings);
+  if (grid <= 0 || loopDuration <= 0) return events;
+
+  return events
+    .map(event => {
+      const step = Math.round(event.timestamp / grid);
+      const swing = step % 2 === 1 ? settings.swing * grid * 0.5 : 0;
+      const target = step * grid + swing;
+      let timestamp = event.timestamp + (target - event.timestamp) * settings.strength;
+      if (timestamp >= loopDuration) timestamp -= loopDuration;
+      return { ...event, timestamp: Math.max(0, timestamp) };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
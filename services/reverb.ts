@@ -0,0 +1,42 @@
+import { ReverbSettings } from '../types';
+
+export const MAX_PRE_DELAY = 0.5;
+
+// Builds a stereo impulse response from decaying noise. Size stretches the tail and
+// thickens the early reflections, damping progressively darkens the tail like absorbent walls.
+export const createImpulseResponse = (ctx: BaseAudioContext, params: ReverbSettings): AudioBuffer => {
+  const size = Math.min(1, Math.max(0, params.size));
+  const damping = Math.min(1, Math.max(0, params.damping));
+  const seconds = Math.max(0.1, params.decay) * (0.4 + size * 0.8);
+  const length = Math.max(1, Math.floor(ctx.sampleRate * seconds));
+  const buffer = ctx.createBuffer(2, length, ctx.sampleRate);
+
+  // Early reflections are sparse taps spread over the first 10-80ms depending on size
+  const earlyWindow = Math.floor(ctx.sampleRate * (0.01 + size * 0.07));
+  const earlyTaps = 6 + Math.floor(size * 10);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    let lowpassed = 0;
+
+    for (let i = 0; i < length; i++) {
+      const progress = i / length;
+      const envelope = Math.pow(1 - progress, 2 + (1 - size) * 2);
+      // One-pole lowpass whose cutoff falls as the tail progresses
+      const coefficient = Math.min(0.98, damping * (0.2 + progress * 0.8));
+      const noise = Math.random() * 2 - 1;
+      lowpassed = lowpassed * coefficient + noise * (1 - coefficient);
+      data[i] = lowpassed * envelope;
+    }
+
+    for (let tap = 0; tap < earlyTaps; tap++) {
+      const position = Math.floor(Math.random() * earlyWindow);
+      if (position < length) data[position] += (Math.random() * 2 - 1) * (1 - tap / earlyTaps) * 0.5;
+    }
+  }
+
+  return buffer;
+};
+
+export const reverbParamsKey = (params: ReverbSettings): string =>
+  `${params.size.toFixed(2)}:${params.decay.toFixed(2)}:${params.damping.toFixed(2)}`;
@@ -0,0 +1,177 @@
+import { NoteEvent } from '../types';
+import { audioEngine } from './audioEngine';
+
+// How far ahead of the audio clock notes are handed to the engine, and how often we top up
+const LOOKAHEAD = 0.1;
+const TICK_INTERVAL = 25;
+
+export const DEFAULT_GATE_MS = 300;
+
+export interface TransportCycle {
+  events: NoteEvent[];
+  duration: number; // ms
+}
+
+export interface TransportTrack {
+  // Asked once per pass so edits made during playback take effect at the next boundary.
+  // Returning null ends the track after the current pass.
+  getCycle: (index: number) => TransportCycle | null;
+  onNoteOn: (event: NoteEvent, voiceId: string, time: number) => void;
+  onNoteOff: (event: NoteEvent, voiceId: string, time: number) => void;
+  onEnd?: () => void;
+}
+
+interface PendingOff {
+  time: number;
+  voiceId: string;
+  event: NoteEvent;
+  started: number;
+}
+
+interface TrackState {
+  track: TransportTrack;
+  cycleIndex: number;
+  cycleStart: number;
+  cycle: TransportCycle | null;
+  eventIndex: number;
+  cycleStarts: { start: number; duration: number; index: number }[];
+  pendingOffs: PendingOff[];
+  endTimer: number | null;
+}
+
+class Scheduler {
+  private tracks: Map<string, TrackState> = new Map();
+  private timerId: number | null = null;
+  private voiceCounter = 0;
+
+  public now(): number {
+    audioEngine.init();
+    return audioEngine.getContext()?.currentTime ?? 0;
+  }
+
+  public add(id: string, track: TransportTrack, startTime?: number) {
+    this.remove(id);
+    const start = startTime ?? this.now() + 0.05;
+    const cycle = track.getCycle(0);
+    if (!cycle || cycle.duration <= 0) return;
+
+    this.tracks.set(id, {
+      track,
+      cycleIndex: 0,
+      cycleStart: start,
+      cycle: this.sortCycle(cycle),
+      eventIndex: 0,
+      cycleStarts: [{ start, duration: cycle.duration / 1000, index: 0 }],
+      pendingOffs: [],
+      endTimer: null,
+    });
+
+    if (this.timerId === null) {
+      this.timerId = window.setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+    this.tick();
+  }
+
+  public remove(id: string) {
+    const state = this.tracks.get(id);
+    if (!state) return;
+    this.tracks.delete(id);
+    if (state.endTimer !== null) window.clearTimeout(state.endTimer);
+
+    // Release whatever is still sounding (or queued to sound) right away
+    const now = this.now();
+    state.pendingOffs.forEach(off => state.track.onNoteOff(off.event, off.voiceId, Math.max(now, off.started)));
+
+    if (this.tracks.size === 0 && this.timerId !== null) {
+      window.clearInterval(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  public clear() {
+    Array.from(this.tracks.keys()).forEach(id => this.remove(id));
+  }
+
+  public isPlaying(id: string): boolean {
+    return this.tracks.has(id);
+  }
+
+  // The pass currently audible (lookahead may already have queued the next one) and how far into it we are
+  public getPass(id: string): { index: number; progress: number } | null {
+    const state = this.tracks.get(id);
+    if (!state) return null;
+    const now = this.now();
+    const current = [...state.cycleStarts].reverse().find(c => c.start <= now);
+    if (!current || current.duration <= 0) return { index: 0, progress: 0 };
+    return { index: current.index, progress: Math.min(1, (now - current.start) / current.duration) };
+  }
+
+  // Position of the pass currently audible, as a 0-1 fraction, or null when the track is idle
+  public getProgress(id: string): number | null {
+    return this.getPass(id)?.progress ?? null;
+  }
+
+  private sortCycle(cycle: TransportCycle): TransportCycle {
+    return { ...cycle, events: [...cycle.events].sort((a, b) => a.timestamp - b.timestamp) };
+  }
+
+  private tick() {
+    const horizon = this.now() + LOOKAHEAD;
+    this.tracks.forEach((state, id) => this.scheduleTrack(id, state, horizon));
+  }
+
+  private scheduleTrack(id: string, state: TrackState, horizon: number) {
+    while (state.cycle) {
+      const cycle = state.cycle;
+
+      while (state.eventIndex < cycle.events.length) {
+        const event = cycle.events[state.eventIndex];
+        const time = state.cycleStart + event.timestamp / 1000;
+        if (time >= horizon) break;
+        this.flushOffs(state, time);
+
+        const voiceId = `${id}:${event.note}:${this.voiceCounter++}`;
+        state.track.onNoteOn(event, voiceId, time);
+        const gate = (event.duration ?? DEFAULT_GATE_MS) / 1000;
+        state.pendingOffs.push({ time: time + gate, voiceId, event, started: time });
+        state.pendingOffs.sort((a, b) => a.time - b.time);
+        state.eventIndex++;
+      }
+
+      const cycleEnd = state.cycleStart + cycle.duration / 1000;
+      if (state.eventIndex < cycle.events.length || cycleEnd >= horizon) break;
+
+      state.cycleIndex++;
+      state.cycleStart = cycleEnd;
+      state.eventIndex = 0;
+      const next = state.track.getCycle(state.cycleIndex);
+      state.cycle = next ? this.sortCycle(next) : null;
+
+      if (state.cycle) {
+        state.cycleStarts = [...state.cycleStarts.slice(-3), { start: cycleEnd, duration: state.cycle.duration / 1000, index: state.cycleIndex }];
+        // Guard against zero-length passes spinning forever
+        if (state.cycle.duration <= 0) state.cycle = null;
+      }
+    }
+
+    this.flushOffs(state, horizon);
+
+    if (!state.cycle && state.pendingOffs.length === 0 && state.endTimer === null) {
+      const delay = Math.max(0, (state.cycleStart - this.now()) * 1000);
+      state.endTimer = window.setTimeout(() => {
+        if (this.tracks.get(id) !== state) return;
+        this.remove(id);
+        state.track.onEnd?.();
+      }, delay);
+    }
+  }
+
+  private flushOffs(state: TrackState, until: number) {
+    while (state.pendingOffs.length > 0 && state.pendingOffs[0].time < until) {
+      const off = state.pendingOffs.shift()!;
+      state.track.onNoteOff(off.event, off.voiceId, off.time);
+    }
+  }
+}
+
+export const scheduler = new Scheduler();
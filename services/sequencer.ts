@@ -0,0 +1,125 @@
+import { NoteEvent, SequencerPattern, SequencerStep, SynthSettings, TransportSettings } from '../types';
+import { getNoteLabel, midiNoteToFrequency } from '../constants';
+import { scheduler } from './scheduler';
+import { audioEngine } from './audioEngine';
+
+const SEQUENCER_TRACK = 'sequencer';
+// Sliding notes overlap the next step slightly so the legato voice never retriggers
+const SLIDE_OVERLAP = 20;
+const ACCENT_GAIN = 1.3;
+
+// Accents lift a note above full velocity, but only as far as the master level leaves headroom,
+// so an accented step at full volume never drives the output past unity
+const accentGain = (settings: SynthSettings): number => Math.max(1, Math.min(ACCENT_GAIN, 1 / settings.gain));
+
+export const STEPS_PER_BEAT = 4;
+
+export const createStep = (note = 48): SequencerStep => ({
+  active: false, note, gate: 0.5, velocity: 0.8, slide: false, accent: false,
+});
+
+export const createPattern = (name: string, length: 16 | 32 = 16): SequencerPattern => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  length,
+  steps: Array.from({ length: 32 }, () => createStep()),
+});
+
+// Sixteenth notes of the quarter-note tempo
+export const stepDuration = (transport: TransportSettings): number => 60000 / transport.bpm / STEPS_PER_BEAT;
+
+interface StepPlayback {
+  step: SequencerStep;
+  slideIn: boolean;
+  slideOut: boolean;
+}
+
+export interface SequencerSource {
+  getPatterns: () => SequencerPattern[];
+  getChain: () => string[]; // pattern ids, played in order and repeated
+  getSettings: () => SynthSettings;
+  getTransport: () => TransportSettings;
+}
+
+// Slides need a single legato voice with glide on, whatever the patch itself uses
+const slideSettings = (settings: SynthSettings): SynthSettings => ({
+  ...settings,
+  glide: true,
+  polyphony: { ...settings.polyphony, voiceMode: 'legato' },
+});
+
+class Sequencer {
+  private playback = new WeakMap<NoteEvent, StepPlayback>();
+  private passPatterns: Map<number, string> = new Map();
+
+  public start(source: SequencerSource, startTime?: number) {
+    this.passPatterns.clear();
+    scheduler.add(SEQUENCER_TRACK, {
+      getCycle: (index) => {
+        const patterns = source.getPatterns();
+        const chain = source.getChain().filter(id => patterns.some(p => p.id === id));
+        if (chain.length === 0) return null;
+        const pattern = patterns.find(p => p.id === chain[index % chain.length])!;
+        this.passPatterns.set(index, pattern.id);
+        this.passPatterns.delete(index - 4);
+        return this.buildCycle(pattern, source.getTransport());
+      },
+      onNoteOn: (event, voiceId, time) => {
+        const info = this.playback.get(event);
+        const base = source.getSettings();
+        const settings = info && (info.slideIn || info.slideOut) ? slideSettings(base) : base;
+        audioEngine.playNote(event.frequency, voiceId, settings, {
+          time,
+          velocity: event.velocity,
+          gain: info?.step.accent ? accentGain(base) : 1,
+        });
+      },
+      onNoteOff: (_event, voiceId, time) => audioEngine.stopNote(voiceId, source.getSettings(), time),
+    }, startTime);
+  }
+
+  public stop() {
+    scheduler.remove(SEQUENCER_TRACK);
+    this.passPatterns.clear();
+  }
+
+  public isPlaying(): boolean {
+    return scheduler.isPlaying(SEQUENCER_TRACK);
+  }
+
+  // Pattern and step currently audible, for the playhead
+  public getPosition(patterns: SequencerPattern[]): { patternId: string; step: number } | null {
+    const pass = scheduler.getPass(SEQUENCER_TRACK);
+    const pattern = pass && patterns.find(p => p.id === this.passPatterns.get(pass.index));
+    if (!pass || !pattern) return null;
+    return { patternId: pattern.id, step: Math.min(pattern.length - 1, Math.floor(pass.progress * pattern.length)) };
+  }
+
+  private buildCycle(pattern: SequencerPattern, transport: TransportSettings) {
+    const length = stepDuration(transport);
+    const steps = pattern.steps.slice(0, pattern.length);
+    const events: NoteEvent[] = [];
+
+    steps.forEach((step, i) => {
+      if (!step.active) return;
+      const previous = steps[i - 1];
+      const next = steps[i + 1];
+      const slideIn = !!previous?.active && previous.slide;
+      const slideOut = step.slide && !!next?.active;
+      const event: NoteEvent = {
+        note: getNoteLabel(step.note),
+        frequency: midiNoteToFrequency(step.note),
+        velocity: step.accent ? 1 : step.velocity,
+        startTime: Date.now(),
+        timestamp: i * length,
+        duration: slideOut ? length + SLIDE_OVERLAP : Math.max(5, step.gate * length),
+      };
+      this.playback.set(event, { step, slideIn, slideOut });
+      events.push(event);
+    });
+
+    return { events, duration: length * pattern.length };
+  }
+}
+
+export const sequencer = new Sequencer();
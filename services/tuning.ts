@@ -0,0 +1,122 @@
+import { TuningSettings, ScalaScale, ScalaKeyboardMap } from '../types';
+import { DEFAULT_TUNING, TEMPERAMENTS, midiNoteToFrequency, frequencyToMidiNote } from '../constants';
+
+const CONCERT_A = 69;
+const MIDDLE_C = 60;
+
+// Without a .kbm, degree 0 sits on middle C at its equal-tempered pitch for the reference
+const defaultKeyboardMap = (referencePitch: number): ScalaKeyboardMap => ({
+  size: 0,
+  firstNote: 0,
+  lastNote: 127,
+  middleNote: MIDDLE_C,
+  referenceNote: MIDDLE_C,
+  referenceFrequency: referencePitch * Math.pow(2, (MIDDLE_C - CONCERT_A) / 12),
+  octaveDegree: 0,
+  mapping: [],
+});
+
+// Scale degree a key plays under a keyboard mapping, or null for an unmapped key
+const mappedDegree = (midiNote: number, scale: ScalaScale, map: ScalaKeyboardMap): number | null => {
+  const offset = midiNote - map.middleNote;
+  if (map.size === 0) return offset;
+  const degree = map.mapping[((offset % map.size) + map.size) % map.size];
+  if (degree === null || degree === undefined) return null;
+  return Math.floor(offset / map.size) * (map.octaveDegree || scale.cents.length) + degree;
+};
+
+const degreeCents = (degree: number, scale: ScalaScale): number => {
+  const size = scale.cents.length;
+  const step = ((degree % size) + size) % size;
+  return Math.floor(degree / size) * scale.cents[size - 1] + (step === 0 ? 0 : scale.cents[step - 1]);
+};
+
+const scalaFrequency = (midiNote: number, scale: ScalaScale, map: ScalaKeyboardMap): number | null => {
+  if (midiNote < map.firstNote || midiNote > map.lastNote) return null;
+  const degree = mappedDegree(midiNote, scale, map);
+  if (degree === null) return null;
+  const reference = mappedDegree(map.referenceNote, scale, map) ?? 0;
+  return map.referenceFrequency * Math.pow(2, (degreeCents(degree, scale) - degreeCents(reference, scale)) / 1200);
+};
+
+// Pitch of a MIDI note under the tuning, or null when a keyboard mapping leaves it silent.
+// Twelve-note temperaments are laid out from their root and then shifted so A4 sits on the reference.
+export const tunedFrequency = (midiNote: number, settings: TuningSettings): number | null => {
+  if (settings.temperament === 'scala') {
+    if (!settings.scala) return midiNoteToFrequency(midiNote) * settings.referencePitch / 440;
+    return scalaFrequency(midiNote, settings.scala, settings.keyboardMap ?? defaultKeyboardMap(settings.referencePitch));
+  }
+  const cents = TEMPERAMENTS[settings.temperament].cents;
+  const absolute = (note: number) => {
+    const steps = note - settings.root;
+    return Math.floor(steps / 12) * 1200 + cents[((steps % 12) + 12) % 12];
+  };
+  return settings.referencePitch * Math.pow(2, (absolute(midiNote) - absolute(CONCERT_A)) / 1200);
+};
+
+const parsePitch = (line: string): number => {
+  const token = line.split(/\s+/)[0];
+  if (token.includes('.')) {
+    const cents = parseFloat(token);
+    if (isNaN(cents)) throw new Error(`Invalid pitch "${token}"`);
+    return cents;
+  }
+  const [numerator, denominator = '1'] = token.split('/');
+  const ratio = parseInt(numerator, 10) / parseInt(denominator, 10);
+  if (!(ratio > 0) || !isFinite(ratio)) throw new Error(`Invalid pitch "${token}"`);
+  return 1200 * Math.log2(ratio);
+};
+
+// Scala .scl: "!" comment lines, a description (which may be blank), the note count, then one
+// pitch per line as cents (with a dot) or a ratio
+export const parseScl = (text: string, name: string): ScalaScale => {
+  const lines = text.split(/\r?\n/).filter(line => !line.startsWith('!'));
+  const count = parseInt((lines[1] ?? '').trim(), 10);
+  if (isNaN(count) || count < 1) throw new Error('Scala file has no note count');
+  const cents = lines.slice(2).map(line => line.trim()).filter(line => line.length > 0).slice(0, count).map(parsePitch);
+  if (cents.length < count) throw new Error(`Scala file lists ${cents.length} of ${count} pitches`);
+  return { name, description: (lines[0] ?? '').trim(), cents };
+};
+
+// Scala .kbm: seven header values then one degree (or "x" for silent) per mapped key
+export const parseKbm = (text: string): ScalaKeyboardMap => {
+  const values = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0 && !line.startsWith('!'));
+  if (values.length < 7) throw new Error('Keyboard mapping is missing header fields');
+  const [size, firstNote, lastNote, middleNote, referenceNote] = values.slice(0, 5).map(v => parseInt(v, 10));
+  const referenceFrequency = parseFloat(values[5]);
+  const octaveDegree = parseInt(values[6], 10);
+  if ([size, firstNote, lastNote, middleNote, referenceNote, octaveDegree].some(isNaN) || !(referenceFrequency > 0)) {
+    throw new Error('Keyboard mapping header is invalid');
+  }
+  const mapping = values.slice(7, 7 + size).map(v => {
+    const token = v.split(/\s+/)[0];
+    return token.toLowerCase() === 'x' ? null : parseInt(token, 10);
+  });
+  if (mapping.some(degree => degree !== null && isNaN(degree))) throw new Error('Keyboard mapping has an invalid degree');
+  return { size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, octaveDegree, mapping };
+};
+
+class Tuning {
+  private settings: TuningSettings = DEFAULT_TUNING;
+
+  public setTuning(settings: TuningSettings) {
+    this.settings = settings;
+  }
+
+  public getTuning(): TuningSettings {
+    return this.settings;
+  }
+
+  // Every note source speaks equal temperament at A4 = 440; the engine passes each note through
+  // here so keys, QWERTY, MIDI, loops and renders all follow the same tuning. Any offset from the
+  // nearest semitone (a loop's compensation, say) is carried over. Null means the key is unmapped.
+  public retune(frequency: number): number | null {
+    const { temperament, referencePitch } = this.settings;
+    if (temperament === 'equal' && referencePitch === 440) return frequency;
+    const midiNote = frequencyToMidiNote(frequency);
+    const tuned = tunedFrequency(midiNote, this.settings);
+    return tuned === null ? null : tuned * (frequency / midiNoteToFrequency(midiNote));
+  }
+}
+
+export const tuning = new Tuning();
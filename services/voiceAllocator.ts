@@ -0,0 +1,27 @@
+import { StealMode } from '../types';
+
+export interface AllocatedVoice {
+  frequency: number;
+  startTime: number;
+  releaseTime: number | null;
+  level: () => number;
+}
+
+// Picks the voice to cut when the pool is full. Voices already in their release phase
+// are always sacrificed before held ones so sustained chords survive fast runs.
+export const pickVoiceToSteal = <T extends AllocatedVoice>(voices: T[], mode: StealMode, frequency: number): T | null => {
+  if (voices.length === 0) return null;
+
+  if (mode === 'same-note') {
+    const sameNote = voices.find(v => Math.abs(v.frequency - frequency) < 0.01);
+    if (sameNote) return sameNote;
+  }
+
+  const released = voices.filter(v => v.releaseTime !== null);
+  const candidates = released.length > 0 ? released : voices;
+
+  if (mode === 'quietest') {
+    return candidates.reduce((quietest, v) => v.level() < quietest.level() ? v : quietest);
+  }
+  return candidates.reduce((oldest, v) => v.startTime < oldest.startTime ? v : oldest);
+};
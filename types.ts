@@ -2,6 +2,18 @@
 export type WaveformType = 'sine' | 'square' | 'sawtooth' | 'triangle';
 export type Language = 'en' | 'zh';
 export type LoopMode = 'repeat' | 'oneshot' | 'pingpong';
+export type WavBitDepth = 16 | 24;
+export type MidiFileFormat = 0 | 1;
+export type LoopSync = 'bar' | 'loop';
+export type ArpMode = 'up' | 'down' | 'upDown' | 'random' | 'asPlayed';
+export type Temperament = 'equal' | 'pythagorean' | 'meantone' | 'werckmeister3' | 'kirnberger3' | 'just' | 'scala';
+export type ScaleType = 'major' | 'minor' | 'dorian' | 'mixolydian' | 'harmonicMinor' | 'majorPentatonic' | 'minorPentatonic' | 'blues';
+export type VelocityCurve = 'linear' | 'soft' | 'hard' | 'fixed';
+export type PressureTarget = 'off' | 'vibrato' | 'filter';
+export type LfoDestination = 'pitch' | 'filter' | 'amp' | 'pan' | 'delay';
+export type ModSource = 'env' | 'filterEnv' | 'lfo1' | 'lfo2' | 'velocity' | 'modWheel' | 'aftertouch';
+export type VoiceMode = 'poly' | 'mono' | 'legato';
+export type StealMode = 'oldest' | 'quietest' | 'same-note';
 
 export interface EnvelopeSettings {
   attack: number;
@@ -10,19 +22,96 @@ export interface EnvelopeSettings {
   release: number;
 }
 
+export interface OscillatorSettings {
+  waveform: WaveformType;
+  octave: number;
+  semitone: number;
+  level: number;
+}
+
+export interface SubOscillatorSettings {
+  level: number;
+  octave: number; // 1 or 2 octaves below
+}
+
+export interface UnisonSettings {
+  voices: number;
+  detune: number; // total spread in cents
+}
+
 export interface FilterSettings {
   frequency: number;
   resonance: number;
   type: BiquadFilterType;
+  slope: 12 | 24; // dB per octave
+  envAmount: number; // -1 to 1
+  keyTrack: number; // 0 to 1, 1 follows the keyboard exactly
+}
+
+export interface VelocitySettings {
+  curve: VelocityCurve;
+  ampAmount: number;
+  filterAmount: number;
+}
+
+export interface LfoSettings {
+  waveform: WaveformType;
+  rate: number; // Hz when free running
+  depth: number; // 0-1
+  sync: boolean;
+  division: number; // beats per cycle when synced to tempo
+  retrigger: boolean;
+  destination: LfoDestination;
+}
+
+export interface ModSlot {
+  id: string;
+  source: ModSource;
+  destination: string; // settings path, e.g. 'filter.frequency'
+  amount: number; // -1 to 1
+}
+
+export interface PolyphonySettings {
+  voiceMode: VoiceMode;
+  maxVoices: number;
+  stealMode: StealMode;
+}
+
+export interface PerformanceSettings {
+  bendRange: number; // semitones
+  vibratoRate: number; // Hz
+  vibratoDepth: number; // cents at full mod wheel
+  modFilterDepth: number;
+  pressureTarget: PressureTarget;
+  pressureAmount: number;
+}
+
+export interface ReverbSettings {
+  size: number;
+  decay: number;
+  preDelay: number;
+  damping: number;
 }
 
 export interface SynthSettings {
   waveform: WaveformType;
+  osc2: OscillatorSettings;
+  sub: SubOscillatorSettings;
+  noiseLevel: number;
+  unison: UnisonSettings;
   envelope: EnvelopeSettings;
   filter: FilterSettings;
+  filterEnvelope: EnvelopeSettings;
+  velocity: VelocitySettings;
+  performance: PerformanceSettings;
+  lfo1: LfoSettings;
+  lfo2: LfoSettings;
+  modMatrix: ModSlot[];
+  polyphony: PolyphonySettings;
   detune: number;
   gain: number;
   reverb: number;
+  reverbParams: ReverbSettings;
   delay: number;
   stereoWidth: number;
   masterTune: number;
@@ -30,6 +119,14 @@ export interface SynthSettings {
   glideSpeed: number;
 }
 
+export interface MappableParam {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+}
+
 export interface MIDIMapping {
   [ccNumber: number]: string; // ccNumber -> path (e.g., 'filter.frequency')
 }
@@ -37,17 +134,123 @@ export interface MIDIMapping {
 export interface NoteEvent {
   note: string;
   frequency: number;
+  velocity?: number; // 0-1
   startTime: number;
   duration?: number;
   timestamp: number;
 }
 
+export interface NoteRelease {
+  note: string;
+  timestamp: number;
+}
+
 export interface RecordedLoop {
   id: string;
   name: string;
   events: NoteEvent[];
   duration: number;
   mode: LoopMode;
+  // Optional sound and playback overrides; a preset reference wins over the snapshot
+  presetId?: string;
+  snapshot?: SynthSettings;
+  transpose?: number; // semitones
+  rate?: number; // playback speed, 1 = as recorded
+  gain?: number; // 0-1
+}
+
+export interface TransportSettings {
+  bpm: number;
+  beatsPerBar: number;
+  beatUnit: number; // 4 = quarter note, 8 = eighth note
+  countInBars: number;
+}
+
+export interface QuantizeSettings {
+  division: number; // grid step in quarter notes, e.g. 0.25 = 1/16
+  triplet: boolean;
+  strength: number; // 0-1, how far notes move toward the grid
+  swing: number; // 0-1, delay of every second grid step, up to half a step
+  onRecord: boolean;
+}
+
+export interface ArpSettings {
+  enabled: boolean;
+  mode: ArpMode;
+  octaves: number; // 1-4, each pass repeats the held notes an octave higher
+  division: number; // step length in quarter notes, as for QuantizeSettings
+  triplet: boolean;
+  gate: number; // 0-1 of a step
+  latch: boolean;
+}
+
+export interface InputSettings {
+  chordMemory: boolean;
+  chord: number[]; // semitones above the played key, 0 included
+  scaleLock: boolean;
+  root: number; // index into NOTE_NAMES
+  scale: ScaleType;
+}
+
+export interface ScalaScale {
+  name: string;
+  description: string;
+  cents: number[]; // degrees 1 to n above the tonic; the last one is the period, usually 1200
+}
+
+export interface ScalaKeyboardMap {
+  size: number; // 0 maps every key to the next degree
+  firstNote: number;
+  lastNote: number;
+  middleNote: number; // key that plays degree 0
+  referenceNote: number;
+  referenceFrequency: number;
+  octaveDegree: number; // degree the mapping repeats at, 0 for the scale's own period
+  mapping: (number | null)[]; // null leaves the key silent
+}
+
+export interface TuningSettings {
+  referencePitch: number; // Hz of A4
+  temperament: Temperament;
+  root: number; // index into NOTE_NAMES the temperament is built on
+  scala: ScalaScale | null;
+  keyboardMap: ScalaKeyboardMap | null;
+}
+
+export interface KeyboardLayout {
+  octaves: number; // visible width of the on-screen keyboard
+  octaveShift: number; // moves both the on-screen keys and the QWERTY bindings
+}
+
+export interface SequencerStep {
+  active: boolean;
+  note: number; // MIDI note number
+  gate: number; // 0-1 of the step length
+  velocity: number; // 0-1
+  slide: boolean; // glides legato into the next step
+  accent: boolean;
+}
+
+export interface SequencerPattern {
+  id: string;
+  name: string;
+  length: 16 | 32;
+  steps: SequencerStep[];
+}
+
+export interface RecordedTake {
+  id: string;
+  name: string;
+  url: string; // object URL for the recorded blob
+  mimeType: string;
+  duration: number; // ms
+}
+
+export interface PlayNoteOptions {
+  time?: number;
+  velocity?: number;
+  gain?: number; // extra level scaling, e.g. a loop's own gain
+  snapshot?: boolean; // voice keeps the settings it started with instead of following live edits; modulation and effects stay shared
 }
 
 export interface StoredPreset {